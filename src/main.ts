@@ -1,17 +1,36 @@
-import { Plugin } from 'obsidian';
-import { JournalPluginSettings, DEFAULT_SETTINGS } from './models/types';
+import { Plugin, TAbstractFile, TFile, normalizePath } from 'obsidian';
+import { JournalPluginSettings, DEFAULT_SETTINGS, BackfillOverwritePolicy, AIProvider, ImageLimits, DailyNote } from './models/types';
 import { JournalPluginSettingTab } from './settings/settingsTab';
 import { NoteProcessor } from './services/noteProcessor';
 import { JournalManager } from './services/journalManager';
-import { Scheduler } from './services/scheduler';
+import { Scheduler, ProcessingResult, ProcessingProgress } from './services/scheduler';
+import { ProcessingLedger } from './services/processingLedger';
+import { DraftQueue } from './services/draftQueue';
+import { JournalHistory } from './services/journalHistory';
 import { DateUtils } from './utils/dateUtils';
+import { TimeZoneUtils } from './utils/timeZoneUtils';
+import { ScheduleUtils } from './utils/scheduleUtils';
 import { logger, LogLevel } from './utils/logger';
+import { SerialQueue } from './utils/concurrency';
+import { SourceChangedModal } from './ui/sourceChangedModal';
+import { FailedNotesModal } from './ui/failedNotesModal';
+import { ProcessingProgressNotice } from './ui/processingProgressNotice';
+import { JournalStatusBar } from './ui/statusBar';
+import { BackfillModal } from './ui/backfillModal';
+import { JournalReviewModal } from './ui/journalReviewModal';
+import { ConfirmGenerateModal } from './ui/confirmGenerateModal';
+import { JournalVersionsModal } from './ui/journalVersionsModal';
 
 export default class JournalPlugin extends Plugin {
   settings: JournalPluginSettings;
   noteProcessor: NoteProcessor;
   journalManager: JournalManager;
   scheduler: Scheduler;
+  ledger: ProcessingLedger;
+  drafts: DraftQueue;
+  history: JournalHistory;
+  // Settings, ledger and drafts all save the same data.json; writes go one at a time
+  private saveQueue = new SerialQueue();
 
   async onload() {
     logger.info('Loading Daily Notes to Journal plugin');
@@ -29,6 +48,12 @@ export default class JournalPlugin extends Plugin {
       // Add commands
       this.addCommands();
       
+      // Add file menu items
+      this.addFileMenuItems();
+      
+      // Add status bar item
+      this.addStatusBar();
+      
       // Start scheduler
       this.scheduler.start();
       
@@ -52,19 +77,24 @@ export default class JournalPlugin extends Plugin {
 
   private initializeServices(): void {
     // Initialize note processor
-    this.noteProcessor = new NoteProcessor(this.app, this.settings);
+    this.noteProcessor = new NoteProcessor(this.app, this.settings, this.ledger);
     
     // Initialize journal manager
-    this.journalManager = new JournalManager(this.app, this.settings);
+    this.journalManager = new JournalManager(this.app, this.settings, this.history);
     
     // Initialize scheduler
     this.scheduler = new Scheduler(
       this.app,
       this.settings,
       this.noteProcessor,
-      this.journalManager
+      this.journalManager,
+      this.ledger,
+      this.drafts
     );
     
+    // Ask about changed daily notes when the source change action is "prompt"
+    this.scheduler.setSourceChangeHandler(dailyNote => SourceChangedModal.ask(this.app, dailyNote));
+    
     logger.debug('Services initialized');
   }
 
@@ -74,19 +104,93 @@ export default class JournalPlugin extends Plugin {
       id: 'process-notes-now',
       name: 'Process daily notes now',
       callback: async () => {
-        try {
-          logger.info('Manual processing triggered');
-          const result = await this.scheduler.processNotes();
-          
-          if (result.success) {
-            this.showNotice(`✅ Processed ${result.processed} notes in ${(result.duration / 1000).toFixed(1)}s`);
-          } else {
-            this.showNotice(`❌ Processing failed: ${result.errors[0] || 'Unknown error'}`);
-          }
-        } catch (error) {
-          logger.error('Manual processing failed:', error);
-          this.showNotice(`❌ Processing failed: ${error.message}`);
+        logger.info('Manual processing triggered');
+        await this.runWithProgress(onProgress => this.scheduler.processNotes(onProgress));
+      }
+    });
+
+    // Command to generate the journal for the open daily note
+    this.addCommand({
+      id: 'generate-journal-for-current-note',
+      name: 'Generate journal for current note',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.noteProcessor.isDailyNotePath(file.path)) {
+          return false;
+        }
+        
+        if (!checking) {
+          this.generateJournalsFor([file.path]);
+        }
+        return true;
+      }
+    });
+
+    // Commands for the open journal
+    this.addCommand({
+      id: 'regenerate-journal',
+      name: 'Regenerate this journal',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.journalManager.isJournalPath(file.path)) {
+          return false;
+        }
+        
+        if (!checking) {
+          this.regenerateJournal(file);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'show-journal-versions',
+      name: 'Show journal version history',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.journalManager.isJournalPath(file.path)) {
+          return false;
         }
+        
+        if (!checking) {
+          this.openJournalVersions(file);
+        }
+        return true;
+      }
+    });
+
+    // Command to backfill journals for a chosen date range
+    this.addCommand({
+      id: 'generate-journals-for-range',
+      name: 'Generate journals for date range',
+      callback: () => {
+        new BackfillModal(this.app, this).open();
+      }
+    });
+
+    // Command to stop a running processing run
+    this.addCommand({
+      id: 'cancel-processing',
+      name: 'Cancel processing',
+      callback: () => {
+        if (this.scheduler.cancelProcessing()) {
+          this.showNotice('⏹️ Cancelling processing after the current request...');
+        } else {
+          this.showNotice('ℹ️ No processing is running');
+        }
+      }
+    });
+
+    // Command to review generated journals before they are written
+    this.addCommand({
+      id: 'review-journal-drafts',
+      name: 'Review journal drafts',
+      callback: () => {
+        if (this.scheduler.getDrafts().length === 0) {
+          this.showNotice('ℹ️ No journal drafts to review');
+          return;
+        }
+        this.openDraftReview();
       }
     });
 
@@ -101,6 +205,7 @@ export default class JournalPlugin extends Plugin {
           
           if (result.success && result.processed > 0) {
             this.showNotice(`✅ Processed latest note in ${(result.duration / 1000).toFixed(1)}s`);
+            this.openDraftReviewIfPending();
           } else if (result.success && result.processed === 0) {
             this.showNotice(`ℹ️ ${result.errors[0] || 'No notes to process'}`);
           } else {
@@ -169,34 +274,26 @@ export default class JournalPlugin extends Plugin {
       id: 'show-processing-status',
       name: 'Show processing status',
       callback: () => {
-        const status = this.scheduler.getStatus();
-        const stats = this.noteProcessor.getProcessingStats();
-        
-        let message = `📊 Processing Status:\n`;
-        message += `• Scheduler: ${status.isRunning ? '🟢 Running' : '🔴 Stopped'}\n`;
-        message += `• Currently processing: ${status.isProcessing ? 'Yes' : 'No'}\n`;
-        message += `• Total processed: ${stats.totalProcessed} notes\n`;
-        
-        if (status.lastProcessingTime) {
-          message += `• Last run: ${status.lastProcessingTime.toLocaleString()}\n`;
-        }
-        
-        if (status.nextProcessingTime) {
-          message += `• Next run: ${status.nextProcessingTime.toLocaleString()}\n`;
-        }
-        
-        this.showNotice(message, 8000);
+        this.showNotice(this.getProcessingStatusMessage(), 8000);
+      }
+    });
+
+    // Command to review notes that failed to generate
+    this.addCommand({
+      id: 'show-failed-notes',
+      name: 'Show failed notes',
+      callback: () => {
+        this.openFailedNotes();
       }
     });
 
     // Command to reset processing history
     this.addCommand({
       id: 'reset-processing-history',
-      name: 'Reset processing history (no-op)',
+      name: 'Reset processing history',
       callback: async () => {
-        // Processing is now dynamic, so this is a no-op
-        this.noteProcessor.resetProcessingHistory();
-        this.showNotice('ℹ️ Processing is now dynamic - delete journal files to reprocess');
+        await this.noteProcessor.resetProcessingHistory();
+        this.showNotice('✅ Processing history cleared - journal files were not changed');
       }
     });
 
@@ -228,7 +325,7 @@ export default class JournalPlugin extends Plugin {
       id: 'debug-filename-generation',
       name: 'Debug filename generation',
       callback: () => {
-        const testDate = new Date('2024-02-17');
+        const testDate = TimeZoneUtils.toLocalDate('2024-02-17');
         const template = this.settings.journalFileNameFormat;
         
         logger.info('=== Debugging Filename Generation ===');
@@ -247,15 +344,181 @@ export default class JournalPlugin extends Plugin {
     });
   }
 
+  private addFileMenuItems(): void {
+    this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+      if (file instanceof TFile && this.journalManager.isJournalPath(file.path)) {
+        menu.addItem(item => item
+          .setTitle('Regenerate journal')
+          .setIcon('refresh-cw')
+          .onClick(() => this.regenerateJournal(file)));
+        menu.addItem(item => item
+          .setTitle('Journal version history')
+          .setIcon('history')
+          .onClick(() => this.openJournalVersions(file)));
+        return;
+      }
+      
+      if (!this.isDailyNote(file)) {
+        return;
+      }
+      
+      menu.addItem(item => item
+        .setTitle('Generate journal')
+        .setIcon('book-open')
+        .onClick(() => this.generateJournalsFor([file.path])));
+    }));
+
+    // Several notes selected in the file explorer
+    this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+      const dailyNotes = files.filter(file => this.isDailyNote(file));
+      if (dailyNotes.length === 0) {
+        return;
+      }
+      
+      menu.addItem(item => item
+        .setTitle(`Generate ${dailyNotes.length} journals`)
+        .setIcon('book-open')
+        .onClick(() => this.generateJournalsFor(dailyNotes.map(file => file.path))));
+    }));
+  }
+
+  private isDailyNote(file: TAbstractFile): boolean {
+    return file instanceof TFile && this.noteProcessor.isDailyNotePath(file.path);
+  }
+
+  private addStatusBar(): void {
+    const statusBar = new JournalStatusBar(this, this.addStatusBarItem());
+    
+    this.scheduler.setStatusListener(() => statusBar.update());
+    
+    // Keep the next run time current between runs
+    this.registerInterval(window.setInterval(() => statusBar.update(), 60 * 1000));
+  }
+
+  /**
+   * Describe the scheduler state and processing history for display
+   */
+  getProcessingStatusMessage(): string {
+    const status = this.scheduler.getStatus();
+    const stats = this.noteProcessor.getProcessingStats();
+    
+    let message = `📊 Processing Status:\n`;
+    message += `• Scheduler: ${status.isRunning ? '🟢 Running' : '🔴 Stopped'} (${ScheduleUtils.describe(this.settings)})\n`;
+    
+    if (status.isProcessing && status.progress) {
+      const current = Math.min(status.progress.finished + 1, status.progress.total);
+      message += `• Currently processing: ${current} of ${status.progress.total}${status.progress.currentDate ? ` (${status.progress.currentDate})` : ''}\n`;
+    } else {
+      message += `• Currently processing: ${status.isProcessing ? 'Yes' : 'No'}\n`;
+    }
+    
+    message += `• Notes waiting: ${status.pendingNotes}\n`;
+    
+    if (status.draftCount > 0) {
+      message += `• Drafts to review: ${status.draftCount}\n`;
+    }
+    
+    if (status.queuedNotes.length > 0) {
+      message += `• Queued from recent edits: ${status.queuedNotes.length}\n${this.formatFileList(status.queuedNotes, 3)}\n`;
+    }
+    
+    message += `• Total processed: ${stats.totalProcessed} notes\n`;
+    message += `• Failed: ${stats.failed} • Pending: ${stats.pending} • Skipped: ${stats.skipped}\n`;
+    
+    const lastRun = status.lastProcessingTime || stats.lastProcessingTime;
+    if (lastRun) {
+      message += `• Last run: ${lastRun.toLocaleString()}\n`;
+    }
+    
+    if (status.nextProcessingTime) {
+      message += `• Next run: ${status.nextProcessingTime.toLocaleString()}\n`;
+    }
+    
+    if (status.lastError) {
+      message += `• Last error: ${status.lastError}\n`;
+    }
+    
+    const failures = this.ledger.getByStatus('failed').slice(0, 3);
+    if (failures.length > 0) {
+      message += `\n❌ Recent failures:\n`;
+      message += failures.map(f => `• ${f.date} (${f.attempts} attempts): ${f.lastError || 'Unknown error'}`).join('\n');
+    }
+    
+    return message;
+  }
+
+  /**
+   * Open the list of notes whose journal failed to generate
+   */
+  openFailedNotes(): void {
+    new FailedNotesModal(this.app, this).open();
+  }
+
+  /**
+   * Open the review of generated journal drafts
+   */
+  openDraftReview(): void {
+    new JournalReviewModal(this.app, this).open();
+  }
+
+  /**
+   * After a manual run in review mode, show the drafts it produced
+   */
+  private openDraftReviewIfPending(): void {
+    if (this.settings.reviewBeforeWriting && this.scheduler.getDrafts().length > 0) {
+      this.openDraftReview();
+    }
+  }
+
   async loadSettings() {
-    const loadedSettings = await this.loadData();
+    // Plugin data holds the settings plus the processing ledger and journal drafts
+    const { processingLedger, journalDrafts, ...loadedSettings } = (await this.loadData()) || {};
     this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedSettings);
+    this.settings.maxConcurrentRequests = Object.assign({}, DEFAULT_SETTINGS.maxConcurrentRequests, loadedSettings.maxConcurrentRequests);
+    // Copy the limits of each provider so the settings tab never edits the defaults
+    this.settings.imageLimits = {} as Record<AIProvider, ImageLimits>;
+    for (const provider of Object.keys(DEFAULT_SETTINGS.imageLimits) as AIProvider[]) {
+      this.settings.imageLimits[provider] = Object.assign({}, DEFAULT_SETTINGS.imageLimits[provider], loadedSettings.imageLimits?.[provider]);
+    }
+    this.settings.providerCredentials = Object.assign({}, loadedSettings.providerCredentials);
+    
+    // Remember the credentials of the configured provider from before they were stored per provider
+    if (!this.settings.providerCredentials[this.settings.aiProvider]) {
+      this.settings.providerCredentials[this.settings.aiProvider] = {
+        apiKey: this.settings.aiConfig.apiKey,
+        endpoint: this.settings.aiConfig.endpoint
+      };
+    }
+    this.ledger = new ProcessingLedger(processingLedger, () => this.savePluginData());
+    this.drafts = new DraftQueue(journalDrafts, () => this.savePluginData());
+    this.history = new JournalHistory(this.app.vault.adapter, this.getJournalHistoryFolder());
     
     logger.debug('Settings loaded');
   }
 
+  /**
+   * Persist settings, the processing ledger and journal drafts to plugin data.
+   * Every save writes the whole file, so saves run one at a time in order and
+   * each writes the state as it is when its turn comes.
+   */
+  async savePluginData() {
+    await this.saveQueue.run(() => this.saveData({
+      ...this.settings,
+      processingLedger: this.ledger ? this.ledger.toJSON() : {},
+      journalDrafts: this.drafts ? this.drafts.toJSON() : {}
+    }));
+  }
+
+  /**
+   * Folder in the plugin directory that holds one file of journal versions per date
+   */
+  private getJournalHistoryFolder(): string {
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return normalizePath(`${pluginDir}/journal-history`);
+  }
+
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.savePluginData();
     
     // Update services with new settings
     if (this.noteProcessor) {
@@ -292,11 +555,149 @@ export default class JournalPlugin extends Plugin {
     noticeEl.addEventListener('click', () => noticeEl.remove());
   }
 
+  /**
+   * Generate journals for a date range, showing progress with a cancel button
+   */
+  async runBackfill(startDate: string, endDate: string, overwritePolicy: BackfillOverwritePolicy): Promise<void> {
+    logger.info(`Backfill triggered for ${startDate} to ${endDate}`);
+    await this.runWithProgress(onProgress =>
+      this.scheduler.processDateRange(startDate, endDate, overwritePolicy, onProgress)
+    );
+  }
+
+  /**
+   * Generate journals for hand-picked daily notes right away, asking first when
+   * that would replace an existing journal or cover a day that is not over yet
+   */
+  async generateJournalsFor(filePaths: string[]): Promise<void> {
+    logger.info(`Journal generation triggered for ${filePaths.length} notes`);
+    
+    try {
+      const candidates = await this.noteProcessor.findSelectedNotes(filePaths);
+      const notes = candidates
+        .filter(candidate => candidate.action !== 'skip' && candidate.dailyNote)
+        .map(candidate => candidate.dailyNote as DailyNote);
+      
+      if (notes.length === 0) {
+        const reasons = candidates.map(candidate => `• ${candidate.file}: ${candidate.reason}`).join('\n');
+        this.showNotice(`ℹ️ Nothing to generate\n${reasons}`, 8000);
+        return;
+      }
+      
+      if (ConfirmGenerateModal.needsConfirmation(candidates) && !(await ConfirmGenerateModal.ask(this.app, candidates))) {
+        return;
+      }
+      
+      await this.runWithProgress(onProgress => this.scheduler.processSelectedNotes(notes, onProgress));
+    } catch (error) {
+      logger.error('Journal generation failed:', error);
+      this.showNotice(`❌ Processing failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Generate a journal again from its daily note. The previous journal is saved
+   * to the version history when it is overwritten.
+   */
+  async regenerateJournal(file: TFile): Promise<void> {
+    try {
+      const source = await this.journalManager.getJournalSource(file);
+      if (!source) {
+        this.showNotice(`ℹ️ ${file.name} has no date and source in its frontmatter, so it cannot be regenerated`);
+        return;
+      }
+      
+      const [candidate] = await this.noteProcessor.findSelectedNotes([source.sourceFile]);
+      if (!candidate || candidate.action === 'skip' || !candidate.dailyNote) {
+        this.showNotice(`ℹ️ Cannot regenerate from ${source.sourceFile}: ${candidate?.reason || 'not found'}`);
+        return;
+      }
+      
+      logger.info(`Regenerating journal ${file.path}`);
+      const dailyNote = candidate.dailyNote;
+      await this.runWithProgress(onProgress => this.scheduler.processSelectedNotes([dailyNote], onProgress));
+    } catch (error) {
+      logger.error('Journal regeneration failed:', error);
+      this.showNotice(`❌ Processing failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Open the saved versions of a journal to compare or restore them
+   */
+  async openJournalVersions(file: TFile): Promise<void> {
+    const source = await this.journalManager.getJournalSource(file);
+    if (!source) {
+      this.showNotice(`ℹ️ ${file.name} has no date in its frontmatter`);
+      return;
+    }
+    
+    new JournalVersionsModal(this.app, this, file, source.date).open();
+  }
+
+  /**
+   * Run a processing job behind a progress notice and report its result
+   */
+  private async runWithProgress(
+    run: (onProgress: (progress: ProcessingProgress) => void) => Promise<ProcessingResult>
+  ): Promise<void> {
+    const progressNotice = new ProcessingProgressNotice(() => this.scheduler.cancelProcessing());
+    
+    try {
+      const result = await run(progress => progressNotice.update(progress));
+      
+      if (result.cancelled) {
+        this.showNotice(this.describeCancelledRun(result), 10000);
+      } else if (result.success) {
+        this.showNotice(`✅ Processed ${result.processed} notes in ${(result.duration / 1000).toFixed(1)}s`);
+        this.openDraftReviewIfPending();
+      } else {
+        this.showNotice(`❌ Processing failed: ${result.errors[0] || 'Unknown error'}`);
+      }
+    } catch (error) {
+      logger.error('Manual processing failed:', error);
+      this.showNotice(`❌ Processing failed: ${error.message}`);
+    } finally {
+      progressNotice.hide();
+    }
+  }
+
+  /**
+   * Summarize which notes a cancelled run completed and which it left for later
+   */
+  describeCancelledRun(result: ProcessingResult): string {
+    const completed = result.completed || [];
+    const skipped = result.skipped || [];
+    
+    let message = `⏹️ Processing cancelled: ${completed.length} completed, ${skipped.length} skipped`;
+    
+    if (completed.length > 0) {
+      message += `\n\nCompleted:\n${this.formatFileList(completed)}`;
+    }
+    
+    if (skipped.length > 0) {
+      message += `\n\nSkipped (will be processed on the next run):\n${this.formatFileList(skipped)}`;
+    }
+    
+    return message;
+  }
+
+  private formatFileList(files: string[], limit: number = 5): string {
+    const lines = files.slice(0, limit).map(file => `• ${file}`);
+    if (files.length > limit) {
+      lines.push(`• ...and ${files.length - limit} more`);
+    }
+    return lines.join('\n');
+  }
+
   /**
    * Get plugin statistics
    */
   async getPluginStats(): Promise<{
     processed: number;
+    failed: number;
+    pending: number;
+    skipped: number;
     journals: number;
     status: string;
     lastRun?: string;
@@ -307,9 +708,12 @@ export default class JournalPlugin extends Plugin {
     
     return {
       processed: stats.totalProcessed,
+      failed: stats.failed,
+      pending: stats.pending,
+      skipped: stats.skipped,
       journals: journalStats.totalJournals,
       status: status.isRunning ? 'Running' : 'Stopped',
-      lastRun: status.lastProcessingTime?.toISOString()
+      lastRun: (status.lastProcessingTime || stats.lastProcessingTime)?.toISOString()
     };
   }
 
@@ -10,8 +10,32 @@ export interface JournalPluginSettings {
     model: string;
   };
   outputLanguage: string;
-  checkFrequency: number; // in minutes
+  scheduleMode: ScheduleMode; // when processing runs on its own
+  checkFrequency: number; // in minutes; safety sweep of the interval mode
+  scheduleTimes: string[]; // HH:mm run times of the daily and weekdays modes, in the home timezone
+  scheduleWeekdays: number[]; // days the weekdays mode runs on (0 = Sunday)
+  dayEndsAt: string; // HH:mm; a day's note is not processed before this time on the next day
+  homeTimeZone: string; // IANA timezone used for "today" and journal timestamps ('' = device timezone)
+  quietPeriodMinutes: number; // wait this long after the last edit of a note (0 = no wait)
   customPrompt: string;
+  includeHeadings: string[]; // only use lines under these headings (empty = whole note)
+  excludeHeadings: string[]; // never use lines under these headings
+  includeOpenTasks: boolean; // send unchecked tasks to the AI as plans rather than leaving them out
+  doneTodayList: boolean; // list completed tasks in the journal without going through the AI
+  sourceChangeAction: SourceChangeAction; // what to do when a daily note changes after its journal was written
+  reviewBeforeWriting: boolean; // generated journals wait as drafts until accepted
+  journalVersionsToKeep: number; // earlier versions kept per journal when it is overwritten, 0 to keep none
+  maxRetryAttempts: number; // give up on a failing note after this many attempts
+  maxConcurrentRequests: Record<AIProvider, number>; // parallel AI requests per provider
+  providerCredentials: Partial<Record<AIProvider, ProviderCredentials>>; // remembered per provider for switching and per-note overrides
+  attachmentPlacement: AttachmentPlacement; // where embedded images and files go in the journal
+  maxAttachments: number; // most images and files carried into one journal
+  sendImagesToAI: boolean; // let vision-capable models see the day's photos
+  imageLimits: Record<AIProvider, ImageLimits>; // how many photos and how large, per provider
+  transcribeAudio: boolean; // turn embedded voice memos into entries
+  transcriptionEndpoint: string; // Whisper-compatible transcription URL
+  transcriptionModel: string;
+  transcriptionApiKey: string; // empty = none, or the OpenAI key for OpenAI's endpoint
 }
 
 export const DEFAULT_SETTINGS: JournalPluginSettings = {
@@ -26,14 +50,48 @@ export const DEFAULT_SETTINGS: JournalPluginSettings = {
     model: 'gpt-3.5-turbo'
   },
   outputLanguage: 'auto',
+  scheduleMode: 'interval',
   checkFrequency: 60,
+  scheduleTimes: ['23:30'],
+  scheduleWeekdays: [1, 2, 3, 4, 5],
+  dayEndsAt: '00:00',
+  homeTimeZone: '',
+  quietPeriodMinutes: 0,
+  includeHeadings: [],
+  excludeHeadings: [],
+  includeOpenTasks: false,
+  doneTodayList: false,
+  sourceChangeAction: 'ignore',
+  reviewBeforeWriting: false,
+  journalVersionsToKeep: 10,
+  maxRetryAttempts: 5,
+  maxConcurrentRequests: {
+    gemini: 3,
+    openai: 3,
+    ollama: 1
+  },
+  providerCredentials: {},
+  attachmentPlacement: 'gallery',
+  maxAttachments: 12,
+  sendImagesToAI: false,
+  imageLimits: {
+    gemini: { maxImages: 8, maxDimension: 1536 },
+    openai: { maxImages: 8, maxDimension: 1536 },
+    ollama: { maxImages: 3, maxDimension: 768 }
+  },
+  transcribeAudio: false,
+  transcriptionEndpoint: 'https://api.openai.com/v1/audio/transcriptions',
+  transcriptionModel: 'whisper-1',
+  transcriptionApiKey: '',
   customPrompt: `Transform these raw daily log entries into a well-written, engaging journal entry.
 
 Guidelines:
 - Write in a candid, personal style with storytelling elements
 - Maintain chronological flow of the day's events
+- Entries prefixed with a time like [14:30] happened at that time of day; follow that timeline
 - Include emotional context and personal reflections
 - Preserve the original language and tone
+- Keep names of people, places and things exactly as written so they can be linked
 - Create engaging prose that captures the day's essence
 - Keep the same perspective (first person)
 - Make it feel authentic and re-readable in the future
@@ -66,7 +124,22 @@ export interface Coordinate {
 
 export interface DailyNoteEntry {
   content: string;
+  time?: string; // time of day in 24h HH:mm format, when the line starts with one
   coordinates?: Coordinate;
+  links?: NoteLink[]; // wikilinks replaced by readable names in content
+  attachments?: string[]; // vault paths of images and files embedded with the entry
+  task?: TaskStatus; // set when the line is a task
+  completedTasks?: string[]; // completed tasks of the entry and its child bullets, as written
+}
+
+export type TaskStatus = 'done' | 'open' | 'in-progress' | 'cancelled';
+
+/**
+ * A wikilink replaced by its readable name before the entry went to the AI
+ */
+export interface NoteLink {
+  name: string; // readable name sent to the AI, e.g. Ana Pérez
+  markup: string; // wikilink restored in the journal, e.g. [[People/Ana Pérez|Ana Pérez]]
 }
 
 export interface DailyNote {
@@ -74,6 +147,10 @@ export interface DailyNote {
   date: string;
   entries: DailyNoteEntry[];
   coordinates: Coordinate[];
+  contentHash?: string;
+  sourceChanged?: boolean; // a journal exists but was generated from an older version of the note
+  overrides?: DailyNoteOverrides;
+  voiceMemos?: string[]; // embedded recordings still to be transcribed before processing
 }
 
 export interface JournalEntry {
@@ -83,8 +160,113 @@ export interface JournalEntry {
   coordinates: Coordinate[];
   sourceFile: string;
   sentiment?: Sentiment;
+  sourceHash?: string;
+  timeZone?: string;
+  attachments?: JournalAttachment[];
+  completedTasks?: string[]; // for the "Done today" list
+}
+
+/**
+ * An image or file from the daily note carried into the journal
+ */
+export interface JournalAttachment {
+  path: string;
+  context: string; // content of the entry it was embedded with
+  position: number; // where in the day's entries it appeared, from 0 (first) to 1 (last)
 }
 
+export type AttachmentPlacement = 'gallery' | 'inline' | 'none';
+
 export type AIProvider = 'gemini' | 'openai' | 'ollama';
 
+/**
+ * Photos sent to a provider; larger ones are scaled down before upload
+ */
+export interface ImageLimits {
+  maxImages: number;
+  maxDimension: number; // longest side in pixels
+}
+
+export interface ProviderCredentials {
+  apiKey?: string;
+  endpoint?: string;
+}
+
+/**
+ * Processing overrides a daily note sets in its own frontmatter
+ */
+export interface DailyNoteOverrides {
+  skip?: boolean; // journal: skip
+  language?: string; // journal-language
+  provider?: AIProvider; // journal-provider
+  model?: string; // journal-model
+  prompt?: string; // journal-prompt, appended to the prompt
+  timeZone?: string; // journal-timezone, the timezone the day was lived in
+}
+
+/**
+ * interval: as notes change plus a periodic sweep; daily / weekdays: at fixed
+ * times; startup: only the catch-up run when Obsidian starts
+ */
+export type ScheduleMode = 'interval' | 'daily' | 'weekdays' | 'startup';
+
+export type SourceChangeAction = 'ignore' | 'regenerate' | 'prompt';
+
+export type ProcessingStatus = 'pending' | 'done' | 'failed' | 'skipped-empty' | 'skipped-by-rule' | 'dismissed' | 'awaiting-review';
+
+export interface ProcessingRecord {
+  date: string; // YYYY-MM-DD of the daily note
+  status: ProcessingStatus;
+  attempts: number; // attempts since the journal was last generated
+  sourceFile?: string;
+  lastError?: string;
+  provider?: AIProvider;
+  model?: string;
+  firstSeenAt: string; // ISO timestamps
+  updatedAt: string;
+  lastAttemptAt?: string;
+  nextRetryAt?: string; // failed notes are not retried before this time
+  completedAt?: string;
+}
+
+export type SourceChangeDecision = 'regenerate' | 'ignore' | 'later';
+
+/**
+ * A generated journal waiting to be accepted, edited, regenerated or discarded
+ */
+export interface JournalDraft {
+  date: string; // YYYY-MM-DD of the daily note
+  dailyNote: DailyNote;
+  content: string; // generated journal text, links restored
+  sentiment?: Sentiment;
+  provider: AIProvider;
+  model: string;
+  createdAt: string; // ISO timestamp
+}
+
+// Why an earlier version of a journal was saved
+export type JournalVersionReason = 'regenerated' | 'restored';
+
+/**
+ * An earlier version of a journal, saved before it was overwritten
+ */
+export interface JournalVersion {
+  version: number; // numbered per date, starting at 1
+  content: string; // the whole journal file, frontmatter included
+  savedAt: string; // ISO timestamp
+  reason: JournalVersionReason;
+}
+
+// Which existing journals a date-range backfill regenerates
+export type BackfillOverwritePolicy = 'skip-existing' | 'overwrite-changed' | 'overwrite-all';
+
+export interface BackfillCandidate {
+  file: string;
+  date: string; // YYYY-MM-DD
+  action: 'create' | 'overwrite' | 'skip';
+  reason?: string; // why the note is skipped or overwritten
+  inProgress?: boolean; // the note's day has not ended yet (only for notes picked by hand)
+  dailyNote?: DailyNote; // set for notes that will be processed
+}
+
 export type Sentiment = 'Very Happy' | 'Happy' | 'Neutral' | 'Sad' | 'Very Sad';
\ No newline at end of file
@@ -6,6 +6,14 @@ export interface AIServiceResponse {
   sentiment?: Sentiment;
 }
 
+/**
+ * An image sent along with the content, e.g. a photo of the day
+ */
+export interface AIImagePart {
+  mimeType: string;
+  data: string; // base64 without a data: URL prefix
+}
+
 export interface AIServiceConfig {
   apiKey?: string;
   endpoint?: string;
@@ -22,9 +30,10 @@ export abstract class AIService {
   }
 
   /**
-   * Process content using the AI service
+   * Process content using the AI service. Aborting the signal cancels the request.
+   * Images are sent to vision-capable models alongside the text.
    */
-  abstract processContent(content: string, prompt: string, language?: string): Promise<AIServiceResponse>;
+  abstract processContent(content: string, prompt: string, language?: string, signal?: AbortSignal, images?: AIImagePart[]): Promise<AIServiceResponse>;
 
   /**
    * Test if the service is properly configured and accessible
@@ -47,7 +56,8 @@ export abstract class AIService {
   async getAvailableModels?(): Promise<string[]>;
 
   /**
-   * Make HTTP request with error handling and retry logic
+   * Make HTTP request with error handling and retry logic.
+   * An abort signal in the options cancels the request and any remaining retries.
    */
   protected async makeHttpRequest(
     url: string,
@@ -55,8 +65,15 @@ export abstract class AIService {
     retries: number = 3,
     timeout: number = 30000
   ): Promise<Response> {
+    const cancelSignal = options.signal;
+    if (cancelSignal?.aborted) {
+      throw new Error('Request cancelled');
+    }
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onCancel = () => controller.abort();
+    cancelSignal?.addEventListener('abort', onCancel);
 
     try {
       for (let attempt = 1; attempt <= retries; attempt++) {
@@ -83,7 +100,8 @@ export abstract class AIService {
 
           return response;
         } catch (error) {
-          if (attempt === retries) {
+          // Retrying an aborted request would fail immediately
+          if (attempt === retries || controller.signal.aborted) {
             throw error;
           }
           
@@ -101,11 +119,13 @@ export abstract class AIService {
       
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error(`Request timeout after ${timeout}ms`);
+          throw new Error(cancelSignal?.aborted ? 'Request cancelled' : `Request timeout after ${timeout}ms`);
         }
       }
       
       throw error;
+    } finally {
+      cancelSignal?.removeEventListener('abort', onCancel);
     }
   }
 
@@ -144,8 +164,12 @@ export abstract class AIService {
   /**
    * Sanitize and prepare prompt with content
    */
-  protected preparePrompt(template: string, content: string, language?: string): string {
+  protected preparePrompt(template: string, content: string, language?: string, imageCount: number = 0): string {
     let prompt = template.replace('{content}', content.trim());
+
+    if (imageCount > 0) {
+      prompt += `\n\n${imageCount === 1 ? 'The attached photo was' : `The ${imageCount} attached photos were`} taken during this day, in the order they appear in the log. Describe what they show where it fits the story.`;
+    }
     
     if (language && language !== 'auto') {
       prompt += `\n\nPlease write the journal entry in ${language}. Return only the journal content, no introductions or explanations.`;
@@ -1,4 +1,4 @@
-import { AIService, AIServiceConfig, AIServiceResponse } from './aiService';
+import { AIService, AIServiceConfig, AIServiceResponse, AIImagePart } from './aiService';
 import { logger } from '../../utils/logger';
 
 export class GeminiService extends AIService {
@@ -8,18 +8,19 @@ export class GeminiService extends AIService {
     super('gemini', config);
   }
 
-  async processContent(content: string, prompt: string, language?: string): Promise<AIServiceResponse> {
+  async processContent(content: string, prompt: string, language?: string, signal?: AbortSignal, images: AIImagePart[] = []): Promise<AIServiceResponse> {
     const startTime = Date.now();
     
     try {
       logger.logAIRequest(this.provider, this.config.model, content.length);
       
-      const fullPrompt = this.preparePrompt(prompt, content, language);
+      const fullPrompt = this.preparePrompt(prompt, content, language, images.length);
       
       const url = `${this.baseUrl}/${this.config.model}:generateContent?key=${this.config.apiKey}`;
       
       const response = await this.makeHttpRequest(url, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json'
         },
@@ -29,7 +30,13 @@ export class GeminiService extends AIService {
               parts: [
                 {
                   text: fullPrompt
-                }
+                },
+                ...images.map(image => ({
+                  inline_data: {
+                    mime_type: image.mimeType,
+                    data: image.data
+                  }
+                }))
               ]
             }
           ],
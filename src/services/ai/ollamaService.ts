@@ -1,4 +1,4 @@
-import { AIService, AIServiceConfig, AIServiceResponse } from './aiService';
+import { AIService, AIServiceConfig, AIServiceResponse, AIImagePart } from './aiService';
 import { logger } from '../../utils/logger';
 
 export class OllamaService extends AIService {
@@ -13,24 +13,27 @@ export class OllamaService extends AIService {
     }
   }
 
-  async processContent(content: string, prompt: string, language?: string): Promise<AIServiceResponse> {
+  async processContent(content: string, prompt: string, language?: string, signal?: AbortSignal, images: AIImagePart[] = []): Promise<AIServiceResponse> {
     const startTime = Date.now();
     
     try {
       logger.logAIRequest(this.provider, this.config.model, content.length);
       
-      const fullPrompt = this.preparePrompt(prompt, content, language);
+      const fullPrompt = this.preparePrompt(prompt, content, language, images.length);
       
       const url = `${this.config.endpoint}/api/generate`;
       
       const response = await this.makeHttpRequest(url, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: this.config.model,
           prompt: fullPrompt,
+          // Vision models such as llava take raw base64 images
+          ...(images.length > 0 ? { images: images.map(image => image.data) } : {}),
           stream: false,
           options: {
             temperature: 0.7,
@@ -1,4 +1,4 @@
-import { AIService, AIServiceConfig, AIServiceResponse } from './aiService';
+import { AIService, AIServiceConfig, AIServiceResponse, AIImagePart } from './aiService';
 import { logger } from '../../utils/logger';
 
 export class OpenAIService extends AIService {
@@ -8,16 +8,17 @@ export class OpenAIService extends AIService {
     super('openai', config);
   }
 
-  async processContent(content: string, prompt: string, language?: string): Promise<AIServiceResponse> {
+  async processContent(content: string, prompt: string, language?: string, signal?: AbortSignal, images: AIImagePart[] = []): Promise<AIServiceResponse> {
     const startTime = Date.now();
     
     try {
       logger.logAIRequest(this.provider, this.config.model, content.length);
       
-      const fullPrompt = this.preparePrompt(prompt, content, language);
+      const fullPrompt = this.preparePrompt(prompt, content, language, images.length);
       
       const response = await this.makeHttpRequest(this.baseUrl, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.config.apiKey}`
@@ -27,7 +28,7 @@ export class OpenAIService extends AIService {
           messages: [
             {
               role: 'user',
-              content: fullPrompt
+              content: this.buildMessageContent(fullPrompt, images)
             }
           ],
           temperature: 0.7,
@@ -61,6 +62,23 @@ export class OpenAIService extends AIService {
     }
   }
 
+  /**
+   * Plain text, or a content array with the images as data URLs
+   */
+  private buildMessageContent(text: string, images: AIImagePart[]): string | object[] {
+    if (images.length === 0) {
+      return text;
+    }
+
+    return [
+      { type: 'text', text },
+      ...images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }))
+    ];
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await this.makeHttpRequest('https://api.openai.com/v1/models', {
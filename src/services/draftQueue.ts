@@ -0,0 +1,52 @@
+import { JournalDraft } from '../models/types';
+import { PersistedStore } from '../utils/persistedStore';
+
+/**
+ * Generated journals waiting for review, one per date, stored in plugin data
+ */
+export class DraftQueue extends PersistedStore<JournalDraft> {
+  constructor(drafts?: Record<string, JournalDraft>, persist?: () => Promise<void>) {
+    super('journal drafts', drafts, persist);
+  }
+
+  /**
+   * Get the draft for a date, if any
+   */
+  get(date: string): JournalDraft | undefined {
+    return this.records[date];
+  }
+
+  /**
+   * Get all drafts, oldest date first
+   */
+  getAll(): JournalDraft[] {
+    return Object.values(this.records).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Number of drafts waiting for review
+   */
+  count(): number {
+    return Object.keys(this.records).length;
+  }
+
+  /**
+   * Add a draft, replacing an earlier one for the same date
+   */
+  async add(draft: JournalDraft): Promise<void> {
+    this.records[draft.date] = draft;
+    await this.save();
+  }
+
+  /**
+   * Remove the draft for a date
+   */
+  async remove(date: string): Promise<void> {
+    if (!this.records[date]) {
+      return;
+    }
+
+    delete this.records[date];
+    await this.save();
+  }
+}
@@ -0,0 +1,119 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { JournalVersion, JournalVersionReason } from '../models/types';
+import { logger } from '../utils/logger';
+import { SerialQueue } from '../utils/concurrency';
+
+/**
+ * Numbered earlier versions of each journal. The versions of each date are
+ * kept in a JSON file of their own in the history folder, so they are only
+ * read when asked for and never rewritten with the plugin data. Without a
+ * folder they are kept in memory only.
+ */
+export class JournalHistory {
+  private adapter: DataAdapter | null;
+  private folder: string;
+  // Versions per date as last read or written
+  private versions: Record<string, JournalVersion[]> = {};
+  // Parallel workers overwrite journals concurrently; changes are written in order
+  private writeQueue = new SerialQueue();
+
+  constructor(adapter: DataAdapter | null = null, folder: string = '') {
+    this.adapter = folder ? adapter : null;
+    this.folder = folder ? normalizePath(folder) : '';
+  }
+
+  /**
+   * Saved versions of the journal for a date, newest first
+   */
+  async getVersions(date: string): Promise<JournalVersion[]> {
+    return [...(await this.load(date))].reverse();
+  }
+
+  /**
+   * Get a saved version of the journal for a date, if it is still kept
+   */
+  async getVersion(date: string, version: number): Promise<JournalVersion | undefined> {
+    return (await this.load(date)).find(v => v.version === version);
+  }
+
+  /**
+   * Save a version of the journal for a date, dropping the oldest versions
+   * beyond maxVersions. Content identical to the newest saved version is not
+   * saved again. Returns the saved version, or null when nothing is kept.
+   * Fails when the version cannot be saved.
+   */
+  async addVersion(
+    date: string,
+    content: string,
+    reason: JournalVersionReason,
+    maxVersions: number
+  ): Promise<JournalVersion | null> {
+    if (maxVersions <= 0) {
+      return null;
+    }
+
+    return this.writeQueue.run(async () => {
+      const dateVersions = await this.load(date);
+      const latest = dateVersions[dateVersions.length - 1];
+
+      if (latest && latest.content === content) {
+        return latest;
+      }
+
+      const version: JournalVersion = {
+        version: latest ? latest.version + 1 : 1,
+        content,
+        savedAt: new Date().toISOString(),
+        reason
+      };
+
+      this.versions[date] = [...dateVersions, version].slice(-Math.floor(maxVersions));
+      try {
+        await this.write(date);
+      } catch (error) {
+        // Keep memory in line with the file, which still holds the earlier versions
+        this.versions[date] = dateVersions;
+        throw error;
+      }
+
+      return version;
+    });
+  }
+
+  private async load(date: string): Promise<JournalVersion[]> {
+    if (this.versions[date] || !this.adapter) {
+      return this.versions[date] || [];
+    }
+
+    const path = this.getPath(date);
+    try {
+      if (await this.adapter.exists(path)) {
+        this.versions[date] = JSON.parse(await this.adapter.read(path));
+      }
+    } catch (error) {
+      logger.error(`Failed to read journal history for ${date}:`, error);
+    }
+
+    return this.versions[date] || [];
+  }
+
+  private async write(date: string): Promise<void> {
+    if (!this.adapter) {
+      return;
+    }
+
+    try {
+      if (!(await this.adapter.exists(this.folder))) {
+        await this.adapter.mkdir(this.folder);
+      }
+      await this.adapter.write(this.getPath(date), JSON.stringify(this.versions[date] || []));
+    } catch (error) {
+      logger.error(`Failed to save journal history for ${date}:`, error);
+      throw new Error(`Failed to save journal history for ${date}: ${error.message}`);
+    }
+  }
+
+  private getPath(date: string): string {
+    return normalizePath(`${this.folder}/${date}.json`);
+  }
+}
@@ -1,23 +1,41 @@
 import { App, TFile } from 'obsidian';
-import { JournalPluginSettings, DailyNote, JournalEntry, Coordinate, Sentiment } from '../models/types';
+import { JournalPluginSettings, DailyNote, JournalEntry, JournalAttachment, Coordinate, Sentiment, JournalVersion, JournalVersionReason } from '../models/types';
 import { DateUtils } from '../utils/dateUtils';
 import { FileUtils } from '../utils/fileUtils';
 import { CoordinateParser } from '../utils/coordinateParser';
+import { SerialQueue } from '../utils/concurrency';
+import { TimeZoneUtils } from '../utils/timeZoneUtils';
+import { AttachmentUtils } from '../utils/attachmentUtils';
+import { TaskParser } from '../utils/taskParser';
 import { logger } from '../utils/logger';
+import { JournalHistory } from './journalHistory';
 
 export class JournalManager {
   private app: App;
   private settings: JournalPluginSettings;
+  private history: JournalHistory;
+  // Journal writes run one at a time so parallel workers never race on folder creation
+  private writeQueue = new SerialQueue();
 
-  constructor(app: App, settings: JournalPluginSettings) {
+  constructor(app: App, settings: JournalPluginSettings, history: JournalHistory = new JournalHistory()) {
     this.app = app;
     this.settings = settings;
+    this.history = history;
   }
 
   /**
-   * Create a journal entry from processed AI content
+   * Create a journal entry from processed AI content.
+   * Calls are serialized, so concurrent callers write one journal at a time.
    */
-  async createJournalEntry(
+  createJournalEntry(
+    dailyNote: DailyNote,
+    processedContent: string,
+    sentiment?: Sentiment
+  ): Promise<JournalEntry> {
+    return this.writeQueue.run(() => this.writeJournalEntry(dailyNote, processedContent, sentiment));
+  }
+
+  private async writeJournalEntry(
     dailyNote: DailyNote,
     processedContent: string,
     sentiment?: Sentiment
@@ -25,16 +43,8 @@ export class JournalManager {
     logger.debug(`Creating journal entry for date: ${dailyNote.date}`);
 
     try {
-      // Parse the date string as local date (not UTC) to avoid timezone issues
-      // dailyNote.date is in format "YYYY-MM-DD"
-      const dateParts = dailyNote.date.split('-');
-      const date = new Date(
-        parseInt(dateParts[0]), // year
-        parseInt(dateParts[1]) - 1, // month (0-indexed)
-        parseInt(dateParts[2]) // day
-      );
-      logger.debug(`Parsed date: ${date.toISOString()}`);
-      logger.debug(`Local date components: ${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`);
+      // dailyNote.date is a calendar day ("YYYY-MM-DD"), not an instant
+      const date = TimeZoneUtils.toLocalDate(dailyNote.date);
       logger.debug(`Journal filename format: ${this.settings.journalFileNameFormat}`);
       logger.debug(`Destination folder: ${this.settings.destinationFolder}`);
       
@@ -52,20 +62,25 @@ export class JournalManager {
         date: dailyNote.date,
         coordinates: dailyNote.coordinates,
         sourceFile: dailyNote.file,
-        sentiment: sentiment
+        sentiment: sentiment,
+        sourceHash: dailyNote.contentHash,
+        timeZone: dailyNote.overrides?.timeZone,
+        attachments: this.getAttachments(dailyNote),
+        completedTasks: this.getCompletedTasks(dailyNote)
       };
 
       // Format the journal content with metadata
       const formattedContent = this.formatJournalContent(journalEntry);
 
-      // Ensure destination folder exists
-      await FileUtils.ensureFolder(this.app, this.settings.destinationFolder);
+      // Ensure the journal's folder exists (may be nested below the destination folder)
+      await FileUtils.ensureFolder(this.app, FileUtils.getParentPath(journalPath) || this.settings.destinationFolder);
 
       // Create or update the journal file
       if (FileUtils.fileExists(this.app, journalPath)) {
         logger.info(`Updating existing journal entry: ${journalPath}`);
         const existingFile = this.app.vault.getAbstractFileByPath(journalPath);
         if (existingFile instanceof TFile) {
+          await this.backupJournalEntry(existingFile, dailyNote.date);
           await FileUtils.updateFile(this.app, existingFile, formattedContent);
         } else {
           throw new Error(`Expected file at ${journalPath} but got ${existingFile?.constructor.name}`);
@@ -85,14 +100,44 @@ export class JournalManager {
     }
   }
 
+  /**
+   * Attachments of the daily note to carry into its journal, if any
+   */
+  private getAttachments(dailyNote: DailyNote): JournalAttachment[] | undefined {
+    if (this.settings.attachmentPlacement === 'none') {
+      return undefined;
+    }
+
+    const attachments = AttachmentUtils.collect(dailyNote.entries || [], this.settings.maxAttachments);
+    return attachments.length > 0 ? attachments : undefined;
+  }
+
+  /**
+   * Completed tasks for the "Done today" list, if it is turned on and there are any
+   */
+  private getCompletedTasks(dailyNote: DailyNote): string[] | undefined {
+    if (!this.settings.doneTodayList) {
+      return undefined;
+    }
+
+    const tasks = TaskParser.getCompletedTasks(dailyNote.entries || []);
+    return tasks.length > 0 ? tasks : undefined;
+  }
+
   /**
    * Format journal content with frontmatter and structure
    */
   private formatJournalContent(journalEntry: JournalEntry): string {
+    // The day is described in the timezone it was lived in, the creation time in the home timezone
+    const homeTimeZone = TimeZoneUtils.resolveTimeZone(this.settings.homeTimeZone);
+    const dayTimeZone = TimeZoneUtils.resolveTimeZone(journalEntry.timeZone, homeTimeZone);
+
     const frontmatter: Record<string, any> = {
       date: journalEntry.date,
+      datetime: TimeZoneUtils.toISOString(journalEntry.date, '00:00', dayTimeZone),
+      timezone: dayTimeZone,
       source: journalEntry.sourceFile,
-      created: new Date().toISOString()
+      created: TimeZoneUtils.formatInstant(new Date(), homeTimeZone)
     };
 
     // Add sentiment if provided
@@ -100,6 +145,11 @@ export class JournalManager {
       frontmatter.sentiment = journalEntry.sentiment;
     }
 
+    // Record which version of the daily note this journal was generated from
+    if (journalEntry.sourceHash) {
+      frontmatter.source_hash = journalEntry.sourceHash;
+    }
+
     // Add location information if coordinates exist
     if (journalEntry.coordinates.length > 0) {
       const locationYaml = CoordinateParser.formatCoordinatesForYaml(journalEntry.coordinates);
@@ -121,6 +171,22 @@ export class JournalManager {
     // Ensure proper paragraph spacing
     content = content.replace(/\n{3,}/g, '\n\n');
 
+    // Carry the images and files embedded in the daily note over
+    const attachments = journalEntry.attachments || [];
+    const inline = this.settings.attachmentPlacement === 'inline';
+    if (attachments.length > 0 && inline) {
+      content = AttachmentUtils.placeInline(content, attachments);
+    }
+
+    // List completed tasks exactly as written, independent of the AI
+    if (journalEntry.completedTasks && journalEntry.completedTasks.length > 0) {
+      content = `${content}\n\n${TaskParser.renderDoneList(journalEntry.completedTasks)}`;
+    }
+
+    if (attachments.length > 0 && !inline) {
+      content = `${content}\n\n${AttachmentUtils.renderGallery(attachments)}`;
+    }
+
     // Add title if specified in format
     const finalContent = journalEntry.title ? 
       `# ${journalEntry.title}\n\n${content}` : 
@@ -167,17 +233,107 @@ export class JournalManager {
   }
 
   /**
-   * Backup an existing journal entry before overwriting
+   * Keep the existing journal for a changed daily note by recording the note's
+   * current hash, so the change is not reported again
    */
-  async backupJournalEntry(file: TFile): Promise<string> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = `${file.path}.backup-${timestamp}`;
-    
+  async acceptSourceChange(dailyNote: DailyNote): Promise<void> {
+    if (!dailyNote.contentHash) {
+      return;
+    }
+
+    const existing = await this.getExistingJournalEntry(TimeZoneUtils.toLocalDate(dailyNote.date));
+    if (!existing.exists || !existing.file) {
+      return;
+    }
+
+    await this.app.fileManager.processFrontMatter(existing.file, (frontmatter) => {
+      frontmatter.source_hash = dailyNote.contentHash;
+    });
+
+    logger.info(`Kept existing journal for changed note: ${dailyNote.file}`);
+  }
+
+  /**
+   * Save the current content of a journal to its version history before it is overwritten.
+   * Returns null when no versions are kept. Fails when the version cannot be
+   * saved, so the journal is not overwritten without a backup.
+   */
+  async backupJournalEntry(
+    file: TFile,
+    date: string,
+    reason: JournalVersionReason = 'regenerated'
+  ): Promise<JournalVersion | null> {
     const content = await FileUtils.readFile(this.app, file);
-    await FileUtils.createFile(this.app, backupPath, content);
+    const version = await this.history.addVersion(date, content, reason, this.settings.journalVersionsToKeep);
     
-    logger.info(`Created backup: ${backupPath}`);
-    return backupPath;
+    if (version) {
+      logger.info(`Saved version ${version.version} of ${file.path}`);
+    }
+    return version;
+  }
+
+  /**
+   * Saved earlier versions of the journal for a date, newest first
+   */
+  async getJournalVersions(date: string): Promise<JournalVersion[]> {
+    return this.history.getVersions(date);
+  }
+
+  /**
+   * Replace the journal for a date with a saved version. The current content
+   * is saved as a version first, so restoring can be undone. The given file is
+   * replaced while it exists, even if it was named by an earlier file name
+   * format; otherwise the journal is found by the current format.
+   */
+  async restoreJournalVersion(date: string, version: number, file?: TFile): Promise<void> {
+    const saved = await this.history.getVersion(date, version);
+    if (!saved) {
+      throw new Error(`Failed to restore journal: version ${version} of ${date} is no longer kept`);
+    }
+
+    await this.writeQueue.run(async () => {
+      const target = file && FileUtils.fileExists(this.app, file.path)
+        ? file
+        : (await this.getExistingJournalEntry(TimeZoneUtils.toLocalDate(date))).file;
+      
+      if (target) {
+        await this.backupJournalEntry(target, date, 'restored');
+        await FileUtils.updateFile(this.app, target, saved.content);
+      } else {
+        const journalPath = this.getJournalPath(date);
+        await FileUtils.ensureFolder(this.app, FileUtils.getParentPath(journalPath) || this.settings.destinationFolder);
+        await FileUtils.createFile(this.app, journalPath, saved.content);
+      }
+    });
+
+    logger.info(`Restored version ${version} of the journal for ${date}`);
+  }
+
+  /**
+   * Whether a path is a markdown file in the journal folder
+   */
+  isJournalPath(filePath: string): boolean {
+    return filePath.endsWith('.md') && filePath.startsWith(`${this.settings.destinationFolder}/`);
+  }
+
+  /**
+   * Date and daily note a journal was generated from, read from its frontmatter.
+   * Returns null for files without them.
+   */
+  async getJournalSource(file: TFile): Promise<{ date: string; sourceFile: string } | null> {
+    const content = await FileUtils.readFile(this.app, file);
+    const { frontmatter } = FileUtils.parseFrontmatter(content);
+
+    if (!frontmatter.date || !frontmatter.source) {
+      return null;
+    }
+
+    return { date: String(frontmatter.date), sourceFile: String(frontmatter.source) };
+  }
+
+  private getJournalPath(date: string): string {
+    const journalFileName = DateUtils.generateFilename(TimeZoneUtils.toLocalDate(date), this.settings.journalFileNameFormat);
+    return `${this.settings.destinationFolder}/${journalFileName}`;
   }
 
   /**
@@ -239,7 +395,7 @@ export class JournalManager {
     processedContent: string,
     sentiment?: Sentiment
   ): string {
-    const date = new Date(dailyNote.date);
+    const date = TimeZoneUtils.toLocalDate(dailyNote.date);
     
     const journalEntry: JournalEntry = {
       title: this.generateTitle(date),
@@ -247,7 +403,11 @@ export class JournalManager {
       date: dailyNote.date,
       coordinates: dailyNote.coordinates,
       sourceFile: dailyNote.file,
-      sentiment: sentiment
+      sentiment: sentiment,
+      sourceHash: dailyNote.contentHash,
+      timeZone: dailyNote.overrides?.timeZone,
+      attachments: this.getAttachments(dailyNote),
+      completedTasks: this.getCompletedTasks(dailyNote)
     };
 
     return this.formatJournalContent(journalEntry);
@@ -1,17 +1,38 @@
-import { App, TFile } from 'obsidian';
-import { JournalPluginSettings, DailyNote, DailyNoteEntry, Coordinate } from '../models/types';
+import { App, TFile, normalizePath } from 'obsidian';
+import { JournalPluginSettings, DailyNote, DailyNoteEntry, DailyNoteOverrides, Coordinate, NoteLink, BackfillCandidate, BackfillOverwritePolicy } from '../models/types';
 import { DateUtils } from '../utils/dateUtils';
 import { FileUtils } from '../utils/fileUtils';
 import { CoordinateParser } from '../utils/coordinateParser';
+import { TimeParser } from '../utils/timeParser';
+import { SectionParser } from '../utils/sectionParser';
+import { TimeZoneUtils } from '../utils/timeZoneUtils';
+import { LinkParser } from '../utils/linkParser';
+import { TaskParser } from '../utils/taskParser';
+import { BlockParser, MarkdownBlock, MarkdownBlockLine } from '../utils/blockParser';
 import { logger } from '../utils/logger';
+import { ProcessingLedger, LedgerStats } from './processingLedger';
+import { AIServiceFactory } from './ai/aiServiceFactory';
+import { TranscriptionService } from './transcriptionService';
+
+/**
+ * Outcome of checking one daily note: ready to process, not closed yet, or nothing to do
+ */
+type NoteCheck =
+  | { state: 'ready'; dailyNote: DailyNote }
+  | { state: 'waiting' }
+  | { state: 'done' };
 
 export class NoteProcessor {
   private app: App;
   private settings: JournalPluginSettings;
+  private ledger: ProcessingLedger;
+  private transcriptionService: TranscriptionService;
 
-  constructor(app: App, settings: JournalPluginSettings) {
+  constructor(app: App, settings: JournalPluginSettings, ledger: ProcessingLedger) {
     this.app = app;
     this.settings = settings;
+    this.ledger = ledger;
+    this.transcriptionService = new TranscriptionService(app, settings);
   }
 
   /**
@@ -28,8 +49,8 @@ export class NoteProcessor {
 
       for (const file of files) {
         try {
-          // Parse date from filename
-          const date = DateUtils.parseDateFromFilename(file.name, this.settings.dateFormat);
+          // Parse date from the file path (formats may include folder segments)
+          const date = this.parseNoteDate(file.path);
           
           if (!date) {
             logger.debug(`Could not parse date from filename: ${file.name}`);
@@ -37,8 +58,8 @@ export class NoteProcessor {
           }
 
           // Only consider notes from the past (before today)
-          if (!DateUtils.isBeforeToday(date)) {
-            logger.debug(`Skipping future/today note: ${file.name}`);
+          if (!this.isNoteClosed(file, date)) {
+            logger.debug(`Skipping open or recently edited note: ${file.name}`);
             continue;
           }
 
@@ -68,7 +89,12 @@ export class NoteProcessor {
       // Parse the note content
       const dailyNote = await this.parseDailyNote(mostRecentNote.file, mostRecentNote.date);
       
-      if (dailyNote.entries.length === 0) {
+      if (dailyNote.overrides?.skip) {
+        logger.info(`Daily note opted out with journal: skip: ${mostRecentNote.file.name}`);
+        return null;
+      }
+      
+      if (!this.hasContent(dailyNote)) {
         logger.debug(`No log entries found in: ${mostRecentNote.file.name}`);
         return null;
       }
@@ -93,109 +119,461 @@ export class NoteProcessor {
 
       for (const file of files) {
         try {
-          // Parse date from filename
-          const date = DateUtils.parseDateFromFilename(file.name, this.settings.dateFormat);
+          const check = await this.checkNote(file);
           
-          if (!date) {
-            logger.debug(`Could not parse date from filename: ${file.name}`);
+          if (check.state === 'ready') {
+            unprocessedNotes.push(check.dailyNote);
+            processedCount++;
+          } else {
             skippedCount++;
-            continue;
           }
+          
+        } catch (error) {
+          logger.error(`Error processing file ${file.name}:`, error);
+          skippedCount++;
+        }
+      }
 
-          // Only process notes from the past (before today)
-          if (!DateUtils.isBeforeToday(date)) {
-            logger.debug(`Skipping future/today note: ${file.name}`);
-            skippedCount++;
-            continue;
-          }
+      logger.logProcessingStats(processedCount, skippedCount, 0);
+      logger.info(`Found ${unprocessedNotes.length} daily notes to process`);
+      
+      return unprocessedNotes;
+      
+    } catch (error) {
+      logger.error('Error scanning for daily notes:', error);
+      throw new Error(`Failed to scan daily notes: ${error.message}`);
+    }
+  }
 
-          // Check if corresponding journal entry already exists
-          if (await this.journalEntryExists(date)) {
-            logger.debug(`Journal already exists for date: ${DateUtils.formatDate(date, this.settings.dateFormat)}`);
-            skippedCount++;
+  /**
+   * Check specific daily notes, e.g. ones queued from vault events. Returns the
+   * notes ready to process and the paths of notes that are still open or being
+   * edited and should be checked again later.
+   */
+  async checkQueuedNotes(filePaths: string[]): Promise<{ ready: DailyNote[]; waiting: string[] }> {
+    const ready: DailyNote[] = [];
+    const waiting: string[] = [];
+
+    for (const filePath of filePaths) {
+      const file = this.app.vault.getAbstractFileByPath(filePath);
+      if (!(file instanceof TFile) || !this.isDailyNotePath(filePath)) {
+        continue;
+      }
+
+      try {
+        const check = await this.checkNote(file);
+        
+        if (check.state === 'ready') {
+          ready.push(check.dailyNote);
+        } else if (check.state === 'waiting') {
+          waiting.push(filePath);
+        }
+      } catch (error) {
+        logger.error(`Error checking queued note ${filePath}:`, error);
+      }
+    }
+
+    return { ready, waiting };
+  }
+
+  /**
+   * Whether a path is a markdown file in the source folder with a date in its name
+   */
+  isDailyNotePath(filePath: string): boolean {
+    const sourceFolder = normalizePath(this.settings.sourceFolder);
+    const inSourceFolder = !sourceFolder || sourceFolder === '/' || filePath.startsWith(`${sourceFolder}/`);
+    
+    return inSourceFolder
+      && filePath.endsWith('.md')
+      && !!this.parseNoteDate(filePath);
+  }
+
+  /**
+   * Decide whether a daily note needs a journal now, later, or not at all
+   */
+  private async checkNote(file: TFile): Promise<NoteCheck> {
+    // Parse date from the file path (formats may include folder segments)
+    const date = this.parseNoteDate(file.path);
+    
+    if (!date) {
+      logger.debug(`Could not parse date from filename: ${file.name}`);
+      return { state: 'done' };
+    }
+
+    // Only process notes whose day has ended and that are no longer being edited
+    if (!this.isNoteClosed(file, date)) {
+      logger.debug(`Skipping open or recently edited note: ${file.name}`);
+      return { state: 'waiting' };
+    }
+
+    // Check if corresponding journal entry already exists
+    const journalExists = await this.journalEntryExists(date);
+    if (journalExists && this.settings.sourceChangeAction === 'ignore') {
+      logger.debug(`Journal already exists for date: ${DateUtils.formatDate(date, this.settings.dateFormat)}`);
+      return { state: 'done' };
+    }
+
+    // Parse the note content
+    const dailyNote = await this.parseDailyNote(file, date);
+    
+    // An existing journal only needs work if its source note changed since it was written
+    if (journalExists) {
+      const sourceHash = await this.getJournalSourceHash(date);
+      
+      if (!sourceHash || sourceHash === dailyNote.contentHash) {
+        logger.debug(`Journal is up to date for: ${file.name}`);
+        return { state: 'done' };
+      }
+      
+      logger.info(`Daily note changed since its journal was generated: ${file.name}`);
+      dailyNote.sourceChanged = true;
+    }
+    
+    if (dailyNote.overrides?.skip) {
+      logger.debug(`Daily note opted out with journal: skip: ${file.name}`);
+      await this.ledger.recordSkipped(dailyNote.date, file.path, 'skipped-by-rule', 'journal: skip');
+      return { state: 'done' };
+    }
+    
+    if (!this.hasContent(dailyNote)) {
+      logger.debug(`No log entries found in: ${file.name}`);
+      await this.ledger.recordSkipped(dailyNote.date, file.path, 'skipped-empty');
+      return { state: 'done' };
+    }
+
+    return { state: 'ready', dailyNote };
+  }
+
+  /**
+   * Find the daily notes dated within a range (inclusive, YYYY-MM-DD) and decide
+   * for each whether a backfill would create, overwrite or skip its journal
+   */
+  async findDailyNotesInRange(
+    startDate: string,
+    endDate: string,
+    overwritePolicy: BackfillOverwritePolicy
+  ): Promise<BackfillCandidate[]> {
+    logger.debug(`Scanning for daily notes between ${startDate} and ${endDate}`);
+    
+    try {
+      const files = FileUtils.getFilesInFolder(this.app, this.settings.sourceFolder, 'md');
+      const candidates: BackfillCandidate[] = [];
+
+      for (const file of files) {
+        try {
+          const date = this.parseNoteDate(file.path);
+          
+          if (!date) {
             continue;
           }
 
-          // Parse the note content
-          const dailyNote = await this.parseDailyNote(file, date);
-          
-          if (dailyNote.entries.length === 0) {
-            logger.debug(`No log entries found in: ${file.name}`);
-            skippedCount++;
+          const dateKey = DateUtils.formatDate(date, 'YYYY-MM-DD');
+          if (dateKey < startDate || dateKey > endDate) {
             continue;
           }
 
-          unprocessedNotes.push(dailyNote);
-          processedCount++;
+          candidates.push(await this.evaluateBackfillCandidate(file, date, dateKey, overwritePolicy));
           
         } catch (error) {
           logger.error(`Error processing file ${file.name}:`, error);
-          skippedCount++;
         }
       }
 
-      logger.logProcessingStats(processedCount, skippedCount, 0);
-      logger.info(`Found ${unprocessedNotes.length} daily notes to process`);
+      candidates.sort((a, b) => a.date.localeCompare(b.date));
+      logger.info(`Found ${candidates.length} daily notes between ${startDate} and ${endDate}`);
       
-      return unprocessedNotes;
+      return candidates;
       
     } catch (error) {
-      logger.error('Error scanning for daily notes:', error);
+      logger.error('Error scanning for daily notes in range:', error);
       throw new Error(`Failed to scan daily notes: ${error.message}`);
     }
   }
 
+  private async evaluateBackfillCandidate(
+    file: TFile,
+    date: Date,
+    dateKey: string,
+    overwritePolicy: BackfillOverwritePolicy
+  ): Promise<BackfillCandidate> {
+    const skip = (reason: string): BackfillCandidate => ({ file: file.path, date: dateKey, action: 'skip', reason });
+
+    if (!DateUtils.isBeforeToday(date, this.settings.dayEndsAt, this.getNoteTimeZone(file))) {
+      return skip('day is not over yet');
+    }
+
+    if (!this.isQuiet(file)) {
+      return skip('edited recently');
+    }
+
+    const journalExists = await this.journalEntryExists(date);
+    if (journalExists && overwritePolicy === 'skip-existing') {
+      return skip('journal exists');
+    }
+
+    const dailyNote = await this.parseDailyNote(file, date);
+    
+    if (dailyNote.overrides?.skip) {
+      return skip('journal: skip');
+    }
+    
+    if (!this.hasContent(dailyNote)) {
+      return skip('no log entries');
+    }
+
+    if (!journalExists) {
+      return { file: file.path, date: dateKey, action: 'create', dailyNote };
+    }
+
+    if (overwritePolicy === 'overwrite-changed') {
+      const sourceHash = await this.getJournalSourceHash(date);
+      if (!sourceHash) {
+        return skip('journal has no source hash');
+      }
+      if (sourceHash === dailyNote.contentHash) {
+        return skip('journal is up to date');
+      }
+      return { file: file.path, date: dateKey, action: 'overwrite', reason: 'note changed', dailyNote };
+    }
+
+    return { file: file.path, date: dateKey, action: 'overwrite', reason: 'journal exists', dailyNote };
+  }
+
+  /**
+   * Check daily notes picked by hand (the active note or notes selected in the
+   * file explorer) and decide for each whether generating would create, overwrite
+   * or skip its journal. Unlike scheduled runs, notes whose day is not over yet
+   * or that were edited recently are included.
+   */
+  async findSelectedNotes(filePaths: string[]): Promise<BackfillCandidate[]> {
+    const candidates: BackfillCandidate[] = [];
+
+    for (const filePath of filePaths) {
+      const file = this.app.vault.getAbstractFileByPath(filePath);
+      const date = file instanceof TFile && this.isDailyNotePath(filePath)
+        ? this.parseNoteDate(filePath)
+        : null;
+
+      if (!(file instanceof TFile) || !date) {
+        candidates.push({ file: filePath, date: '', action: 'skip', reason: 'not a daily note' });
+        continue;
+      }
+
+      try {
+        candidates.push(await this.evaluateSelectedNote(file, date));
+      } catch (error) {
+        logger.error(`Error checking selected note ${filePath}:`, error);
+        candidates.push({ file: filePath, date: '', action: 'skip', reason: error.message });
+      }
+    }
+
+    return candidates.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async evaluateSelectedNote(file: TFile, date: Date): Promise<BackfillCandidate> {
+    const dateKey = DateUtils.formatDate(date, 'YYYY-MM-DD');
+    const dailyNote = await this.parseDailyNote(file, date);
+
+    if (dailyNote.overrides?.skip) {
+      return { file: file.path, date: dateKey, action: 'skip', reason: 'journal: skip' };
+    }
+
+    if (!this.hasContent(dailyNote)) {
+      return { file: file.path, date: dateKey, action: 'skip', reason: 'no log entries' };
+    }
+
+    const journalExists = await this.journalEntryExists(date);
+
+    return {
+      file: file.path,
+      date: dateKey,
+      action: journalExists ? 'overwrite' : 'create',
+      reason: journalExists ? 'journal exists' : undefined,
+      inProgress: !DateUtils.isBeforeToday(date, this.settings.dayEndsAt, this.getNoteTimeZone(file)),
+      dailyNote
+    };
+  }
+
+  /**
+   * Load and parse a single daily note by path, regardless of whether it has a journal.
+   * Returns null if the file does not exist or its date cannot be parsed.
+   */
+  async loadDailyNote(filePath: string): Promise<DailyNote | null> {
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    
+    if (!(file instanceof TFile)) {
+      logger.warn(`Daily note not found: ${filePath}`);
+      return null;
+    }
+    
+    const date = this.parseNoteDate(file.path);
+    
+    if (!date) {
+      logger.warn(`Could not parse date from filename: ${file.name}`);
+      return null;
+    }
+    
+    return this.parseDailyNote(file, date);
+  }
+
   /**
-   * Parse a daily note file into structured data
+   * Turn the voice memos of a note into entries by parsing it again with their
+   * transcripts. This uploads audio, so it only runs when the note is processed,
+   * never while notes are discovered or previewed. Transcription errors are thrown.
    */
-  private async parseDailyNote(file: TFile, date: Date): Promise<DailyNote> {
+  async transcribeVoiceMemos(dailyNote: DailyNote): Promise<DailyNote> {
+    if (!dailyNote.voiceMemos || dailyNote.voiceMemos.length === 0) {
+      return dailyNote;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(dailyNote.file);
+    const date = this.parseNoteDate(dailyNote.file);
+
+    if (!(file instanceof TFile) || !date) {
+      throw new Error(`Failed to transcribe voice memos: ${dailyNote.file} not found`);
+    }
+
+    const transcribed = await this.parseDailyNote(file, date, true);
+    return { ...transcribed, sourceChanged: dailyNote.sourceChanged };
+  }
+
+  /**
+   * Parse a daily note file into structured data. Voice memos are only
+   * transcribed when asked to; otherwise they are listed in voiceMemos.
+   */
+  private async parseDailyNote(file: TFile, date: Date, transcribe: boolean = false): Promise<DailyNote> {
     const content = await FileUtils.readFile(this.app, file);
-    const entries = this.parseLogEntries(content);
+    const { frontmatter, body } = FileUtils.parseFrontmatter(content);
+    const dateKey = DateUtils.formatDate(date, 'YYYY-MM-DD');
+
+    // Voice memos become timestamped entries of their own
+    const transcribedBody = transcribe
+      ? await this.transcriptionService.transcribeEmbeds(
+        body,
+        file.path,
+        dateKey,
+        TimeZoneUtils.resolveTimeZone(this.getNoteTimeZone(file))
+      )
+      : body;
+    const entries = this.parseLogEntries(transcribedBody, file.path);
     const coordinates = CoordinateParser.extractCoordinates(content);
 
-    return {
+    const dailyNote: DailyNote = {
       file: file.path,
-      date: DateUtils.formatDate(date, 'YYYY-MM-DD'),
+      date: dateKey,
       entries,
-      coordinates
+      coordinates,
+      contentHash: FileUtils.generateContentHash(content)
+    };
+
+    const voiceMemos = transcribe ? [] : this.transcriptionService.findVoiceMemos(body, file.path);
+    if (voiceMemos.length > 0) {
+      dailyNote.voiceMemos = voiceMemos;
+    }
+
+    const overrides = this.parseOverrides(frontmatter, file.path);
+    if (Object.keys(overrides).length > 0) {
+      dailyNote.overrides = overrides;
+    }
+
+    return dailyNote;
+  }
+
+  /**
+   * Read the per-note processing overrides from daily note frontmatter
+   */
+  private parseOverrides(frontmatter: Record<string, any>, filePath: string): DailyNoteOverrides {
+    const overrides: DailyNoteOverrides = {};
+    const text = (key: string): string | undefined => {
+      const value = frontmatter[key];
+      return value !== undefined && value !== null && String(value).trim() ? String(value).trim() : undefined;
     };
+
+    if (text('journal')?.toLowerCase() === 'skip') {
+      overrides.skip = true;
+    }
+
+    const language = text('journal-language');
+    if (language) {
+      overrides.language = language;
+    }
+
+    const provider = text('journal-provider')?.toLowerCase();
+    if (provider) {
+      const supported = AIServiceFactory.getSupportedProviders().find(p => p === provider);
+      if (supported) {
+        overrides.provider = supported;
+      } else {
+        logger.warn(`Ignoring unknown journal-provider "${provider}" in ${filePath}`);
+      }
+    }
+
+    const model = text('journal-model');
+    if (model) {
+      overrides.model = model;
+    }
+
+    const prompt = text('journal-prompt');
+    if (prompt) {
+      overrides.prompt = prompt;
+    }
+
+    const timeZone = text('journal-timezone');
+    if (timeZone) {
+      if (TimeZoneUtils.isValidTimeZone(timeZone)) {
+        overrides.timeZone = timeZone;
+      } else {
+        logger.warn(`Ignoring unknown journal-timezone "${timeZone}" in ${filePath}`);
+      }
+    }
+
+    return overrides;
   }
 
   /**
-   * Parse log entries from note content
+   * Parse log entries from the note body (frontmatter already removed).
+   * Each top-level line becomes one entry together with its child bullets
+   * and the lines it wraps onto.
    */
-  private parseLogEntries(content: string): DailyNoteEntry[] {
+  private parseLogEntries(body: string, sourcePath: string): DailyNoteEntry[] {
     const entries: DailyNoteEntry[] = [];
     
-    // Remove frontmatter
-    const { body } = FileUtils.parseFrontmatter(content);
+    // Keep only the lines under the configured headings (headings themselves are dropped);
+    // blocks never run past a heading
+    const sections = SectionParser.splitBySection(
+      body,
+      this.settings.includeHeadings,
+      this.settings.excludeHeadings
+    );
+    const blocks = sections.reduce((all, lines) => all.concat(BlockParser.parseBlocks(lines)), [] as MarkdownBlock[]);
     
-    // Split content into lines and process each line
-    const lines = body.split('\n');
+    // Embeds found before the first entry with text
+    let pendingAttachments: string[] = [];
     
-    for (const line of lines) {
-      const trimmedLine = line.trim();
+    for (const block of blocks) {
+      const trimmedLine = block.line;
       
-      // Skip empty lines, headers, and markdown formatting
-      if (!trimmedLine || 
-          trimmedLine.startsWith('#') || 
-          trimmedLine.startsWith('---') ||
-          trimmedLine.startsWith('<!--') ||
-          trimmedLine.length < 5) {
+      // Skip markdown formatting
+      if (trimmedLine.startsWith('---') || trimmedLine.startsWith('<!--')) {
+        continue;
+      }
+
+      // Completed tasks are accomplishments; open ones did not happen (yet)
+      const task = TaskParser.extractTask(trimmedLine);
+      if (task && TaskParser.isLeftOut(task.status, this.settings.includeOpenTasks)) {
         continue;
       }
 
-      // Clean up markdown formatting (bullets, checkboxes, etc.)
-      let cleanLine = trimmedLine
+      // Clean up markdown formatting (bullets, numbered lists)
+      let cleanLine = (task ? task.content : trimmedLine)
         .replace(/^[-*+]\s*/, '') // Remove bullet points
-        .replace(/^\d+\.\s*/, '') // Remove numbered lists
-        .replace(/^- \[[x\s]\]\s*/, '') // Remove checkboxes
-        .replace(/^\[\s*\]\s*/, '') // Remove empty checkboxes
-        .replace(/^\[x\]\s*/, '') // Remove checked boxes
+        .replace(/^\d+[.)]\s*/, '') // Remove numbered lists
         .trim();
 
-      if (cleanLine.length < 5) {
-        continue;
+      // Extract a leading time of day (e.g. "08:15", "[14:30]", "8:15pm")
+      const leadingTime = TimeParser.extractLeadingTime(cleanLine);
+      if (leadingTime) {
+        cleanLine = leadingTime.content;
       }
 
       // Extract coordinates from this line
@@ -203,16 +581,159 @@ export class NoteProcessor {
       
       // Remove coordinates from content for cleaner processing
       const cleanContent = CoordinateParser.removeCoordinatesFromContent(cleanLine);
+
+      // Send readable names instead of wikilink markup; the links are restored in the journal
+      const { text, links, attachments } = LinkParser.replaceLinks(cleanContent, linkpath =>
+        this.app.metadataCache?.getFirstLinkpathDest(linkpath, sourcePath)
+      );
+
+      // Child bullets stay nested under the entry's first line
+      const details = this.parseChildLines(block.children, sourcePath);
+      const content = [text, ...details.lines].filter(line => line.length > 0).join('\n');
+      const entryLinks = links.concat(details.links);
+      const entryAttachments = attachments.concat(details.attachments);
+      const completedTasks = (task?.status === 'done' && task.content.length > 0 ? [task.content] : []).concat(details.completedTasks);
+
+      // Lines with only embeds (e.g. photos appended by a shortcut) belong to the entry above
+      if (content.length === 0) {
+        if (entryAttachments.length > 0) {
+          const previousEntry = entries[entries.length - 1];
+          if (previousEntry) {
+            previousEntry.attachments = [...(previousEntry.attachments || []), ...entryAttachments];
+          } else {
+            pendingAttachments = pendingAttachments.concat(entryAttachments);
+          }
+        }
+        continue;
+      }
       
-      if (cleanContent.trim().length > 0) {
-        entries.push({
-          content: cleanContent.trim(),
-          coordinates: lineCoordinates.length > 0 ? lineCoordinates[0] : undefined
-        });
+      const coordinates = lineCoordinates.length > 0 ? lineCoordinates : details.coordinates;
+      const entry: DailyNoteEntry = {
+        content,
+        coordinates: coordinates.length > 0 ? coordinates[0] : undefined
+      };
+
+      if (leadingTime) {
+        entry.time = leadingTime.time;
+      }
+
+      if (task) {
+        entry.task = task.status;
+      }
+
+      if (completedTasks.length > 0) {
+        entry.completedTasks = completedTasks;
+      }
+
+      if (entryLinks.length > 0) {
+        entry.links = entryLinks;
+      }
+
+      if (pendingAttachments.length > 0 || entryAttachments.length > 0) {
+        entry.attachments = pendingAttachments.concat(entryAttachments);
+        pendingAttachments = [];
       }
+
+      entries.push(entry);
+    }
+
+    // Keep the day's timeline in order even if lines were appended out of sequence
+    return TimeParser.sortChronologically(entries);
+  }
+
+  /**
+   * Nested lines of an entry as an indented list, keeping their hierarchy
+   * and whether child tasks are done. Completed child tasks are also
+   * collected as written for the "Done today" list.
+   */
+  private parseChildLines(children: MarkdownBlockLine[], sourcePath: string): {
+    lines: string[];
+    links: NoteLink[];
+    attachments: string[];
+    coordinates: Coordinate[];
+    completedTasks: string[];
+  } {
+    const result = {
+      lines: [] as string[],
+      links: [] as NoteLink[],
+      attachments: [] as string[],
+      coordinates: [] as Coordinate[],
+      completedTasks: [] as string[]
+    };
+
+    for (const child of children) {
+      const task = TaskParser.extractTask(child.text);
+      if (task && TaskParser.isLeftOut(task.status, this.settings.includeOpenTasks)) {
+        continue;
+      }
+
+      if (task?.status === 'done' && task.content.length > 0) {
+        result.completedTasks.push(task.content);
+      }
+
+      const itemText = (task ? task.content : child.text).replace(/^(?:[-*+]|\d+[.)])\s*/, '');
+      result.coordinates.push(...CoordinateParser.extractCoordinates(itemText));
+
+      const { text, links, attachments } = LinkParser.replaceLinks(
+        CoordinateParser.removeCoordinatesFromContent(itemText),
+        linkpath => this.app.metadataCache?.getFirstLinkpathDest(linkpath, sourcePath)
+      );
+      result.links.push(...links);
+      result.attachments.push(...attachments);
+
+      if (text.length > 0) {
+        const marker = task ? (task.status === 'done' ? '[x] ' : task.status === 'in-progress' ? '[/] ' : '[ ] ') : '';
+        result.lines.push(`${'  '.repeat(child.depth)}- ${marker}${text}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Date of a daily note from its path. Parsed strictly, so notes whose names
+   * merely contain a year or other digits are not taken for daily notes.
+   */
+  private parseNoteDate(filePath: string): Date | null {
+    return DateUtils.parseDateFromFilename(filePath, this.settings.dateFormat, true);
+  }
+
+  /**
+   * Whether a note has entries, or voice memos that will become entries
+   */
+  private hasContent(dailyNote: DailyNote): boolean {
+    return dailyNote.entries.length > 0 || (dailyNote.voiceMemos || []).length > 0;
+  }
+
+  /**
+   * Check whether a note's day has ended (honoring the day end time)
+   * and the note has not been edited within the quiet period
+   */
+  private isNoteClosed(file: TFile, date: Date): boolean {
+    return DateUtils.isBeforeToday(date, this.settings.dayEndsAt, this.getNoteTimeZone(file)) && this.isQuiet(file);
+  }
+
+  /**
+   * Timezone a note's day is judged in: its journal-timezone frontmatter
+   * (from the metadata cache, so the file is not read) or the home timezone
+   */
+  private getNoteTimeZone(file: TFile): string | undefined {
+    const noteTimeZone = this.app.metadataCache?.getFileCache(file)?.frontmatter?.['journal-timezone'];
+    
+    if (typeof noteTimeZone === 'string' && TimeZoneUtils.isValidTimeZone(noteTimeZone)) {
+      return noteTimeZone.trim();
     }
+    
+    return this.settings.homeTimeZone || undefined;
+  }
 
-    return entries;
+  private isQuiet(file: TFile): boolean {
+    const quietPeriodMs = (this.settings.quietPeriodMinutes || 0) * 60 * 1000;
+    if (quietPeriodMs <= 0 || !file.stat) {
+      return true;
+    }
+
+    return Date.now() - file.stat.mtime >= quietPeriodMs;
   }
 
   /**
@@ -226,26 +747,36 @@ export class NoteProcessor {
   }
 
   /**
-   * Get processing statistics
+   * Get the source hash recorded in the frontmatter of the journal for the given date
    */
-  getProcessingStats(): {
-    totalProcessed: number;
-    lastProcessingTime?: Date;
-  } {
-    // Since we no longer track processed notes, return dynamic stats
-    // This could be enhanced to count actual journal files if needed
-    return {
-      totalProcessed: 0, // We no longer track this
-      // We could add a lastProcessingTime field to settings if needed
-    };
+  private async getJournalSourceHash(date: Date): Promise<string | undefined> {
+    const journalFileName = DateUtils.generateFilename(date, this.settings.journalFileNameFormat);
+    const journalPath = `${this.settings.destinationFolder}/${journalFileName}`;
+    const file = this.app.vault.getAbstractFileByPath(journalPath);
+    
+    if (!(file instanceof TFile)) {
+      return undefined;
+    }
+    
+    const content = await FileUtils.readFile(this.app, file);
+    const { frontmatter } = FileUtils.parseFrontmatter(content);
+    
+    return frontmatter.source_hash ? String(frontmatter.source_hash) : undefined;
+  }
+
+  /**
+   * Get processing statistics from the processing ledger
+   */
+  getProcessingStats(): LedgerStats {
+    return this.ledger.getStats();
   }
 
   /**
-   * Reset processing history (for debugging/testing)
-   * Note: This is now a no-op since we use dynamic checking
+   * Reset processing history (for debugging/testing).
+   * Clears the ledger only; existing journal files are left untouched.
    */
-  resetProcessingHistory(): void {
-    logger.info('Reset processing history (no-op - using dynamic checking)');
+  async resetProcessingHistory(): Promise<void> {
+    await this.ledger.reset();
   }
 
   /**
@@ -253,6 +784,7 @@ export class NoteProcessor {
    */
   updateSettings(newSettings: JournalPluginSettings): void {
     this.settings = newSettings;
+    this.transcriptionService.updateSettings(newSettings);
     logger.debug('Updated note processor settings');
   }
 
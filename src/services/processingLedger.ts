@@ -0,0 +1,290 @@
+import { AIProvider, ProcessingRecord, ProcessingStatus } from '../models/types';
+import { logger } from '../utils/logger';
+import { PersistedStore } from '../utils/persistedStore';
+
+export interface LedgerStats {
+  totalProcessed: number;
+  failed: number;
+  pending: number;
+  skipped: number;
+  awaitingReview: number;
+  lastProcessingTime?: Date;
+}
+
+/**
+ * Persistent per-date record of processing outcomes, stored in plugin data
+ */
+export class ProcessingLedger extends PersistedStore<ProcessingRecord> {
+  // Failed notes wait 15 minutes, then 30, 60, ... up to a day between attempts
+  private static readonly RETRY_BASE_DELAY = 15 * 60 * 1000;
+  private static readonly RETRY_MAX_DELAY = 24 * 60 * 60 * 1000;
+
+  constructor(records?: Record<string, ProcessingRecord>, persist?: () => Promise<void>) {
+    super('processing ledger', records, persist);
+  }
+
+  /**
+   * Get the record for a date, if any
+   */
+  get(date: string): ProcessingRecord | undefined {
+    return this.records[date];
+  }
+
+  /**
+   * Get all records, most recent date first
+   */
+  getAll(): ProcessingRecord[] {
+    return Object.values(this.records).sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Get all records with the given status, most recent date first
+   */
+  getByStatus(status: ProcessingStatus): ProcessingRecord[] {
+    return this.getAll().filter(record => record.status === status);
+  }
+
+  /**
+   * Record that an attempt to generate the journal for a date has started
+   */
+  async recordAttempt(date: string, sourceFile: string, provider: AIProvider, model: string): Promise<void> {
+    const now = new Date().toISOString();
+    const record = this.getOrCreate(date, now);
+
+    record.status = 'pending';
+    record.attempts += 1;
+    record.sourceFile = sourceFile;
+    record.provider = provider;
+    record.model = model;
+    record.lastAttemptAt = now;
+    record.updatedAt = now;
+
+    await this.save();
+  }
+
+  /**
+   * Undo an attempt that was cancelled, putting back the record the date had
+   * before it (or none), so cancelling neither uses up an attempt nor leaves
+   * the date pending
+   */
+  async cancelAttempt(date: string, previous?: ProcessingRecord): Promise<void> {
+    if (previous) {
+      this.records[date] = { ...previous };
+    } else {
+      delete this.records[date];
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Record that the journal for a date was generated
+   */
+  async recordSuccess(date: string): Promise<void> {
+    const now = new Date().toISOString();
+    const record = this.getOrCreate(date, now);
+
+    record.status = 'done';
+    // Only consecutive failures count towards giving up
+    record.attempts = 0;
+    record.lastError = undefined;
+    record.nextRetryAt = undefined;
+    record.completedAt = now;
+    record.updatedAt = now;
+
+    await this.save();
+  }
+
+  /**
+   * Record that the journal for a date was generated as a draft waiting for review
+   */
+  async recordDraft(date: string): Promise<void> {
+    const now = new Date().toISOString();
+    const record = this.getOrCreate(date, now);
+
+    record.status = 'awaiting-review';
+    record.attempts = 0;
+    record.lastError = undefined;
+    record.nextRetryAt = undefined;
+    record.updatedAt = now;
+
+    await this.save();
+  }
+
+  /**
+   * Record that generating the journal for a date failed
+   */
+  async recordFailure(date: string, error: string): Promise<void> {
+    const now = new Date().toISOString();
+    const record = this.getOrCreate(date, now);
+
+    record.status = 'failed';
+    record.lastError = error;
+    record.nextRetryAt = new Date(Date.now() + ProcessingLedger.getRetryDelay(record.attempts)).toISOString();
+    record.updatedAt = now;
+
+    await this.save();
+  }
+
+  /**
+   * Check whether a date may be attempted now.
+   * Failed dates back off exponentially and are given up after maxAttempts;
+   * dismissed dates and drafts waiting for review are never attempted automatically.
+   */
+  isDue(date: string, maxAttempts: number, now: Date = new Date()): boolean {
+    const record = this.records[date];
+
+    if (!record) {
+      return true;
+    }
+
+    if (record.status === 'dismissed' || record.status === 'awaiting-review') {
+      return false;
+    }
+
+    if (record.status !== 'failed') {
+      return true;
+    }
+
+    if (this.hasGivenUp(date, maxAttempts)) {
+      return false;
+    }
+
+    return !record.nextRetryAt || new Date(record.nextRetryAt) <= now;
+  }
+
+  /**
+   * Check whether a failed date has used up its attempts
+   */
+  hasGivenUp(date: string, maxAttempts: number): boolean {
+    const record = this.records[date];
+    return !!record && record.status === 'failed' && record.attempts >= maxAttempts;
+  }
+
+  /**
+   * Make a failed or dismissed date eligible again with a fresh attempt budget
+   */
+  async resetAttempts(date: string): Promise<void> {
+    const record = this.records[date];
+    if (!record) {
+      return;
+    }
+
+    record.status = 'failed';
+    record.attempts = 0;
+    record.nextRetryAt = undefined;
+    record.updatedAt = new Date().toISOString();
+
+    await this.save();
+  }
+
+  /**
+   * Stop retrying a failed date, optionally noting why
+   */
+  async dismiss(date: string, reason?: string): Promise<void> {
+    const record = this.records[date];
+    if (!record) {
+      return;
+    }
+
+    if (reason) {
+      record.lastError = reason;
+    }
+    record.status = 'dismissed';
+    record.nextRetryAt = undefined;
+    record.updatedAt = new Date().toISOString();
+
+    await this.save();
+  }
+
+  /**
+   * Delay before the next attempt after the given number of attempts
+   */
+  static getRetryDelay(attempts: number): number {
+    const exponent = Math.max(attempts - 1, 0);
+    return Math.min(this.RETRY_BASE_DELAY * Math.pow(2, exponent), this.RETRY_MAX_DELAY);
+  }
+
+  /**
+   * Record that a date was skipped. Unchanged skips are not persisted again.
+   */
+  async recordSkipped(
+    date: string,
+    sourceFile: string,
+    status: 'skipped-empty' | 'skipped-by-rule',
+    reason?: string
+  ): Promise<void> {
+    const existing = this.records[date];
+    if (existing && existing.status === status && existing.lastError === reason) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const record = this.getOrCreate(date, now);
+
+    record.status = status;
+    record.sourceFile = sourceFile;
+    record.lastError = reason;
+    record.updatedAt = now;
+
+    await this.save();
+  }
+
+  /**
+   * Remove the record for a date
+   */
+  async remove(date: string): Promise<void> {
+    if (!this.records[date]) {
+      return;
+    }
+
+    delete this.records[date];
+    await this.save();
+  }
+
+  /**
+   * Clear all records
+   */
+  async reset(): Promise<void> {
+    this.records = {};
+    await this.save();
+    logger.info('Processing ledger reset');
+  }
+
+  /**
+   * Summarize the ledger
+   */
+  getStats(): LedgerStats {
+    const records = Object.values(this.records);
+    let lastCompleted: string | undefined;
+
+    for (const record of records) {
+      if (record.completedAt && (!lastCompleted || record.completedAt > lastCompleted)) {
+        lastCompleted = record.completedAt;
+      }
+    }
+
+    return {
+      totalProcessed: records.filter(r => r.status === 'done').length,
+      failed: records.filter(r => r.status === 'failed').length,
+      pending: records.filter(r => r.status === 'pending').length,
+      skipped: records.filter(r => r.status === 'skipped-empty' || r.status === 'skipped-by-rule' || r.status === 'dismissed').length,
+      awaitingReview: records.filter(r => r.status === 'awaiting-review').length,
+      lastProcessingTime: lastCompleted ? new Date(lastCompleted) : undefined
+    };
+  }
+
+  private getOrCreate(date: string, now: string): ProcessingRecord {
+    if (!this.records[date]) {
+      this.records[date] = {
+        date,
+        status: 'pending',
+        attempts: 0,
+        firstSeenAt: now,
+        updatedAt: now
+      };
+    }
+
+    return this.records[date];
+  }
+}
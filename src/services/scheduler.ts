@@ -1,44 +1,208 @@
-import { App } from 'obsidian';
-import { JournalPluginSettings } from '../models/types';
+import { App, EventRef, Events, TAbstractFile, TFile } from 'obsidian';
+import { JournalPluginSettings, DailyNote, DailyNoteEntry, SourceChangeDecision, BackfillOverwritePolicy, AIProvider, JournalDraft } from '../models/types';
 import { NoteProcessor } from './noteProcessor';
 import { JournalManager } from './journalManager';
+import { ProcessingLedger } from './processingLedger';
+import { DraftQueue } from './draftQueue';
 import { AIServiceFactory } from './ai/aiServiceFactory';
+import { AIService, AIServiceConfig, AIImagePart } from './ai/aiService';
 import { logger } from '../utils/logger';
+import { Concurrency, SerialQueue } from '../utils/concurrency';
+import { ScheduleUtils } from '../utils/scheduleUtils';
+import { LinkParser } from '../utils/linkParser';
+import { AttachmentUtils } from '../utils/attachmentUtils';
+import { ImageUtils } from '../utils/imageUtils';
 
 export interface ProcessingResult {
   success: boolean;
   processed: number;
   errors: string[];
   duration: number;
+  cancelled?: boolean;
+  completed?: string[]; // daily notes whose journal was written
+  skipped?: string[]; // daily notes left for a later run because processing was cancelled
 }
 
+export interface ProcessingProgress {
+  total: number;
+  finished: number;
+  currentDate?: string; // date of the most recently started note
+}
+
+// Catch-up run after startup, once the plugin has fully initialized
+const STARTUP_DELAY_MS = 5 * 1000;
+// Timers for scheduled runs wake up at least this often to re-check the clock
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+// Wait for a burst of edits to settle before checking queued notes
+const QUEUE_FLUSH_DELAY_MS = 10 * 1000;
+// Queued notes that are still open are checked again this often, so they are
+// picked up soon after their day ends or the quiet period passes
+const QUEUE_RECHECK_INTERVAL_MS = 60 * 1000;
+
+interface BatchOutcome {
+  processed: number;
+  errors: string[];
+  completed: string[];
+  skipped: string[];
+}
+
+/**
+ * Asks the user what to do with a daily note that changed after its journal was written
+ */
+export type SourceChangeHandler = (dailyNote: DailyNote) => Promise<SourceChangeDecision>;
+
+/**
+ * Notified whenever the scheduler status changes (run started, progress, run finished)
+ */
+export type StatusListener = () => void;
+
 export class Scheduler {
   private app: App;
   private settings: JournalPluginSettings;
   private noteProcessor: NoteProcessor;
   private journalManager: JournalManager;
+  private ledger: ProcessingLedger;
+  private drafts: DraftQueue;
+  private isRunning = false;
   private intervalId: number | null = null;
+  private startupTimeoutId: number | null = null;
+  private scheduledRunTimeoutId: number | null = null;
+  private startupRunTime: Date | null = null;
+  private nextScheduledRun: Date | null = null;
+  private activeSchedule: string | null = null;
+  private recheckIntervalId: number | null = null;
+  private flushTimeoutId: number | null = null;
+  private eventRefs: { events: Events; ref: EventRef }[] = [];
+  // Daily notes seen in vault events that have not been processed yet
+  private queuedNotes = new Set<string>();
   private isProcessing = false;
   private lastProcessingTime: Date | null = null;
+  private sourceChangeHandler: SourceChangeHandler | null = null;
+  // Workers run in parallel, but the user is asked about one changed note at a time
+  private promptQueue = new SerialQueue();
+  private abortController: AbortController | null = null;
+  private progress: ProcessingProgress | null = null;
+  // Daily notes found to need a journal that has not been generated yet
+  private pendingNotes = new Set<string>();
+  private lastError: string | null = null;
+  private statusListener: StatusListener | null = null;
 
   constructor(
     app: App,
     settings: JournalPluginSettings,
     noteProcessor: NoteProcessor,
-    journalManager: JournalManager
+    journalManager: JournalManager,
+    ledger: ProcessingLedger,
+    drafts: DraftQueue = new DraftQueue()
   ) {
     this.app = app;
     this.settings = settings;
     this.noteProcessor = noteProcessor;
     this.journalManager = journalManager;
+    this.ledger = ledger;
+    this.drafts = drafts;
   }
 
   /**
-   * Start the periodic processing
+   * Start the schedule, with a catch-up run shortly after startup
    */
   start(): void {
-    this.stop(); // Stop any existing interval
-    
+    this.stop();
+    this.isRunning = true;
+
+    // Catch up on notes from while Obsidian was closed
+    this.startupRunTime = new Date(Date.now() + STARTUP_DELAY_MS);
+    this.startupTimeoutId = window.setTimeout(() => {
+      this.startupTimeoutId = null;
+      this.startupRunTime = null;
+      this.processNotes();
+    }, STARTUP_DELAY_MS);
+
+    this.startSchedule();
+  }
+
+  /**
+   * Stop all scheduled processing and vault event handling
+   */
+  stop(): void {
+    if (this.startupTimeoutId !== null) {
+      window.clearTimeout(this.startupTimeoutId);
+      this.startupTimeoutId = null;
+      this.startupRunTime = null;
+    }
+
+    this.stopSchedule();
+
+    if (this.isRunning) {
+      this.isRunning = false;
+      logger.info('Scheduler stopped');
+    }
+  }
+
+  private startSchedule(): void {
+    this.activeSchedule = this.getScheduleKey(this.settings);
+
+    // Only the interval mode reacts to edits as they happen
+    if (this.settings.scheduleMode !== 'interval') {
+      this.queuedNotes.clear();
+    }
+
+    switch (this.settings.scheduleMode) {
+      case 'daily':
+      case 'weekdays':
+        this.scheduleNextRun();
+        break;
+
+      case 'startup':
+        logger.info('Scheduler runs on startup only');
+        break;
+
+      default:
+        this.startIntervalMode();
+    }
+  }
+
+  private getScheduleKey(settings: JournalPluginSettings): string {
+    return JSON.stringify([
+      settings.scheduleMode,
+      settings.checkFrequency,
+      settings.scheduleTimes,
+      settings.scheduleWeekdays,
+      settings.homeTimeZone
+    ]);
+  }
+
+  private stopSchedule(): void {
+    this.unregisterVaultEvents();
+
+    if (this.flushTimeoutId !== null) {
+      window.clearTimeout(this.flushTimeoutId);
+      this.flushTimeoutId = null;
+    }
+
+    if (this.recheckIntervalId !== null) {
+      window.clearInterval(this.recheckIntervalId);
+      this.recheckIntervalId = null;
+    }
+
+    if (this.intervalId !== null) {
+      window.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    if (this.scheduledRunTimeoutId !== null) {
+      window.clearTimeout(this.scheduledRunTimeoutId);
+      this.scheduledRunTimeoutId = null;
+    }
+
+    this.nextScheduledRun = null;
+  }
+
+  /**
+   * Watch the vault for daily notes to process, with a periodic full rescan
+   * as a safety sweep for anything the events missed
+   */
+  private startIntervalMode(): void {
     if (this.settings.checkFrequency <= 0) {
       logger.warn('Invalid check frequency, scheduling disabled');
       return;
@@ -46,48 +210,206 @@ export class Scheduler {
 
     const intervalMs = this.settings.checkFrequency * 60 * 1000; // Convert minutes to milliseconds
     
-    logger.info(`Starting scheduler with ${this.settings.checkFrequency} minute intervals`);
+    logger.info(`Starting scheduler with a safety sweep every ${this.settings.checkFrequency} minutes`);
     
+    this.nextScheduledRun = new Date(Date.now() + intervalMs);
     this.intervalId = window.setInterval(() => {
+      this.nextScheduledRun = new Date(Date.now() + intervalMs);
       this.processNotes();
     }, intervalMs);
 
-    // Run initial processing after a short delay
-    setTimeout(() => {
-      this.processNotes();
-    }, 5000); // 5 second delay to allow plugin to fully initialize
+    this.recheckIntervalId = window.setInterval(() => {
+      this.processQueuedNotes();
+    }, QUEUE_RECHECK_INTERVAL_MS);
+
+    // The vault reports every existing file as created while it loads, so only
+    // listen once the layout is ready
+    this.app.workspace.onLayoutReady(() => {
+      if (this.intervalId !== null) {
+        this.registerVaultEvents();
+      }
+    });
   }
 
   /**
-   * Stop the periodic processing
+   * Set a timer for the next run of the daily or weekdays schedule
    */
-  stop(): void {
-    if (this.intervalId !== null) {
-      window.clearInterval(this.intervalId);
-      this.intervalId = null;
-      logger.info('Scheduler stopped');
+  private scheduleNextRun(): void {
+    const nextRun = ScheduleUtils.getNextRun(this.settings, new Date());
+    this.nextScheduledRun = nextRun;
+
+    if (!nextRun) {
+      logger.warn('No run time configured, scheduled processing disabled');
+      return;
     }
+
+    logger.info(`Next scheduled processing: ${nextRun.toLocaleString()}`);
+
+    // Long timers are split so they stay within setTimeout's limit and
+    // catch up promptly after the computer wakes from sleep
+    const delay = Math.min(nextRun.getTime() - Date.now(), MAX_TIMER_DELAY_MS);
+    this.scheduledRunTimeoutId = window.setTimeout(() => {
+      this.scheduledRunTimeoutId = null;
+
+      if (Date.now() >= nextRun.getTime()) {
+        this.processNotes();
+      }
+      this.scheduleNextRun();
+    }, Math.max(delay, 0));
   }
 
   /**
-   * Process the most recent daily note for testing purposes
+   * Queue daily notes as they are created, edited, renamed or deleted
    */
-  async processLatestNote(): Promise<ProcessingResult> {
-    if (this.isProcessing) {
-      logger.warn('Processing already in progress, skipping');
-      return {
-        success: false,
-        processed: 0,
-        errors: ['Processing already in progress'],
-        duration: 0
-      };
+  private registerVaultEvents(): void {
+    this.unregisterVaultEvents();
+
+    const { vault, metadataCache } = this.app;
+    this.eventRefs = [
+      { events: vault, ref: vault.on('create', file => this.queueNote(file)) },
+      { events: vault, ref: vault.on('modify', file => this.queueNote(file)) },
+      { events: vault, ref: vault.on('delete', file => this.dequeueNote(file.path)) },
+      {
+        events: vault,
+        ref: vault.on('rename', (file, oldPath) => {
+          this.dequeueNote(oldPath);
+          this.queueNote(file);
+        })
+      },
+      // Frontmatter such as journal: skip is only known once the cache is updated
+      { events: metadataCache, ref: metadataCache.on('changed', file => this.queueNote(file)) }
+    ];
+
+    logger.debug('Listening for daily note changes');
+  }
+
+  private unregisterVaultEvents(): void {
+    for (const { events, ref } of this.eventRefs) {
+      events.offref(ref);
     }
+    this.eventRefs = [];
+  }
 
-    this.isProcessing = true;
-    const startTime = Date.now();
-    const errors: string[] = [];
+  private queueNote(file: TAbstractFile): void {
+    if (!(file instanceof TFile) || !this.noteProcessor.isDailyNotePath(file.path)) {
+      return;
+    }
+
+    if (!this.queuedNotes.has(file.path)) {
+      logger.debug(`Queued daily note: ${file.path}`);
+      this.queuedNotes.add(file.path);
+      this.notifyStatus();
+    }
+
+    // Debounce so a note being typed into is checked once the edits pause
+    if (this.flushTimeoutId !== null) {
+      window.clearTimeout(this.flushTimeoutId);
+    }
+    this.flushTimeoutId = window.setTimeout(() => {
+      this.flushTimeoutId = null;
+      this.processQueuedNotes();
+    }, QUEUE_FLUSH_DELAY_MS);
+  }
 
+  private dequeueNote(filePath: string): void {
+    if (this.queuedNotes.delete(filePath)) {
+      this.notifyStatus();
+    }
+  }
+
+  /**
+   * Process the queued daily notes that are ready. Notes whose day has not
+   * ended or that are still being edited stay queued for the next check.
+   */
+  private async processQueuedNotes(): Promise<void> {
+    if (this.isProcessing || this.queuedNotes.size === 0) {
+      return;
+    }
+
+    const filePaths = Array.from(this.queuedNotes);
+
+    let check: { ready: DailyNote[]; waiting: string[] };
     try {
+      check = await this.noteProcessor.checkQueuedNotes(filePaths);
+    } catch (error) {
+      logger.error('Failed to check queued notes:', error);
+      return;
+    }
+
+    // Another run may have started while the notes were checked; try again later
+    if (this.isProcessing) {
+      return;
+    }
+
+    // Notes edited during the check were queued again and are kept
+    for (const filePath of filePaths) {
+      if (!check.waiting.includes(filePath)) {
+        this.queuedNotes.delete(filePath);
+      }
+    }
+
+    // Checked notes are pending while they are ready but have no journal yet
+    filePaths.forEach(filePath => this.pendingNotes.delete(filePath));
+    check.ready.forEach(note => this.pendingNotes.add(note.file));
+
+    const dueNotes = check.ready.filter(note =>
+      this.ledger.isDue(note.date, this.settings.maxRetryAttempts)
+    );
+
+    if (dueNotes.length === 0) {
+      this.notifyStatus();
+      return;
+    }
+
+    await this.runExclusive('Processing queued notes failed', async (signal, batch, startTime) => {
+      logger.info(`Processing ${dueNotes.length} queued daily notes`);
+
+      await this.processBatch(dueNotes, signal, batch);
+
+      this.lastError = batch.errors.length > 0 ? batch.errors[batch.errors.length - 1] : null;
+      this.lastProcessingTime = new Date();
+
+      logger.logProcessingStats(batch.processed, dueNotes.length - batch.processed, batch.errors.length);
+
+      return this.toProcessingResult(batch, signal, startTime);
+    });
+  }
+
+  /**
+   * Register the handler used to ask about changed daily notes in prompt mode
+   */
+  setSourceChangeHandler(handler: SourceChangeHandler | null): void {
+    this.sourceChangeHandler = handler;
+  }
+
+  /**
+   * Register the listener told about status changes, e.g. to refresh the status bar
+   */
+  setStatusListener(listener: StatusListener | null): void {
+    this.statusListener = listener;
+  }
+
+  /**
+   * Cancel the running processing run, aborting any in-flight AI request.
+   * Returns false when nothing is being processed.
+   */
+  cancelProcessing(): boolean {
+    if (!this.isProcessing || !this.abortController) {
+      return false;
+    }
+
+    if (!this.abortController.signal.aborted) {
+      logger.info('Cancelling processing');
+      this.abortController.abort();
+    }
+    return true;
+  }
+
+  /**
+   * Process the most recent daily note for testing purposes
+   */
+  async processLatestNote(): Promise<ProcessingResult> {
+    return this.runExclusive('Latest note processing failed', async (signal, batch, startTime) => {
       logger.info('Starting latest note processing for testing');
 
       // Find the most recent daily note
@@ -108,11 +430,27 @@ export class Scheduler {
       // Create AI service
       const aiService = AIServiceFactory.createService(this.settings.aiProvider, this.settings.aiConfig);
 
-      // Prepare content for AI processing
-      const logContent = this.prepareContentForAI(mostRecentNote);
-      
-      if (!logContent.trim()) {
-        logger.warn(`No content to process in: ${mostRecentNote.file}`);
+      let processed: boolean;
+      try {
+        processed = await this.processDailyNote(mostRecentNote, aiService, signal);
+      } catch (error) {
+        if (signal.aborted) {
+          logger.info(`Processing cancelled: ${mostRecentNote.file}`);
+          return {
+            success: true,
+            processed: 0,
+            errors: ['Processing cancelled'],
+            duration: Date.now() - startTime,
+            cancelled: true,
+            completed: [],
+            skipped: [mostRecentNote.file]
+          };
+        }
+        await this.ledger.recordFailure(mostRecentNote.date, error instanceof Error ? error.message : 'Unknown error');
+        throw error;
+      }
+
+      if (!processed) {
         return {
           success: false,
           processed: 0,
@@ -121,162 +459,667 @@ export class Scheduler {
         };
       }
 
-      // Process with AI
-      const aiResponse = await aiService.processContent(
-        logContent,
-        this.settings.customPrompt,
-        this.settings.outputLanguage === 'auto' ? undefined : this.settings.outputLanguage
-      );
-
-      // Create journal entry
-      await this.journalManager.createJournalEntry(mostRecentNote, aiResponse.content, aiResponse.sentiment);
-
-      // No need to mark as processed - we use dynamic checking now
-
       this.lastProcessingTime = new Date();
-      
-      const duration = Date.now() - startTime;
-      const result: ProcessingResult = {
-        success: true,
-        processed: 1,
-        errors: [],
-        duration
-      };
 
       logger.info(`Successfully processed latest note: ${mostRecentNote.file}`);
       logger.logProcessingStats(1, 0, 0);
       
-      return result;
-
-    } catch (error) {
-      const errorMessage = `Latest note processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      logger.error(errorMessage, error);
-      
       return {
-        success: false,
-        processed: 0,
-        errors: [errorMessage, ...errors],
+        success: true,
+        processed: 1,
+        errors: [],
         duration: Date.now() - startTime
       };
-    } finally {
-      this.isProcessing = false;
-    }
+    });
   }
-  async processNotes(): Promise<ProcessingResult> {
-    if (this.isProcessing) {
-      logger.warn('Processing already in progress, skipping');
-      return {
-        success: false,
-        processed: 0,
-        errors: ['Processing already in progress'],
-        duration: 0
-      };
-    }
 
-    this.isProcessing = true;
-    const startTime = Date.now();
-    let processedCount = 0;
-    const errors: string[] = [];
-
-    try {
+  /**
+   * Process all due daily notes. The optional callback is told about progress
+   * after each note starts and finishes.
+   */
+  async processNotes(onProgress?: (progress: ProcessingProgress) => void): Promise<ProcessingResult> {
+    return this.runExclusive('Processing cycle failed', async (signal, batch, startTime) => {
       logger.info('Starting note processing cycle');
 
       // Find unprocessed daily notes
       const unprocessedNotes = await this.noteProcessor.findUnprocessedDailyNotes();
+      this.pendingNotes = new Set(unprocessedNotes.map(note => note.file));
       
       if (unprocessedNotes.length === 0) {
+        this.lastError = null;
         logger.info('No notes to process');
-        return {
-          success: true,
-          processed: 0,
-          errors: [],
-          duration: Date.now() - startTime
-        };
+        return this.toProcessingResult(batch, signal, startTime);
       }
 
-      logger.info(`Found ${unprocessedNotes.length} notes to process`);
+      // Failed notes back off between runs and are given up after too many attempts
+      const dueNotes = unprocessedNotes.filter(note =>
+        this.ledger.isDue(note.date, this.settings.maxRetryAttempts)
+      );
+      
+      if (dueNotes.length < unprocessedNotes.length) {
+        logger.info(`Waiting to retry ${unprocessedNotes.length - dueNotes.length} previously failed notes`);
+      }
+
+      await this.processBatch(dueNotes, signal, batch, onProgress);
+
+      this.lastError = batch.errors.length > 0 ? batch.errors[batch.errors.length - 1] : null;
+      this.lastProcessingTime = new Date();
+
+      logger.logProcessingStats(batch.processed, unprocessedNotes.length - batch.processed, batch.errors.length);
+      
+      return this.toProcessingResult(batch, signal, startTime);
+    });
+  }
+
+  /**
+   * Generate journals for the daily notes in a date range (inclusive, YYYY-MM-DD).
+   * Unlike scheduled runs this ignores retry backoff, and depending on the
+   * overwrite policy regenerates journals that already exist.
+   */
+  async processDateRange(
+    startDate: string,
+    endDate: string,
+    overwritePolicy: BackfillOverwritePolicy,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<ProcessingResult> {
+    return this.runExclusive('Backfill failed', async (signal, batch, startTime) => {
+      logger.info(`Starting backfill from ${startDate} to ${endDate} (${overwritePolicy})`);
+
+      const candidates = await this.noteProcessor.findDailyNotesInRange(startDate, endDate, overwritePolicy);
+      const notes = candidates
+        .filter(candidate => candidate.action !== 'skip' && candidate.dailyNote)
+        .map(candidate => candidate.dailyNote as DailyNote);
+
+      await this.processBatch(notes, signal, batch, onProgress);
+
+      this.lastError = batch.errors.length > 0 ? batch.errors[batch.errors.length - 1] : null;
+      this.lastProcessingTime = new Date();
+
+      logger.logProcessingStats(batch.processed, candidates.length - batch.processed, batch.errors.length);
+
+      return this.toProcessingResult(batch, signal, startTime);
+    });
+  }
+
+  /**
+   * Generate journals for daily notes picked by hand, as checked with
+   * NoteProcessor.findSelectedNotes. Like backfills this ignores retry backoff
+   * and overwrites existing journals; confirming that is left to the caller.
+   */
+  async processSelectedNotes(
+    notes: DailyNote[],
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<ProcessingResult> {
+    return this.runExclusive('Processing selected notes failed', async (signal, batch, startTime) => {
+      logger.info(`Generating journals for ${notes.length} selected notes`);
+
+      await this.processBatch(notes, signal, batch, onProgress);
+
+      this.lastError = batch.errors.length > 0 ? batch.errors[batch.errors.length - 1] : null;
+      this.lastProcessingTime = new Date();
+
+      logger.logProcessingStats(batch.processed, notes.length - batch.processed, batch.errors.length);
+
+      return this.toProcessingResult(batch, signal, startTime);
+    });
+  }
+
+  /**
+   * Process notes with a bounded number of AI requests in flight,
+   * collecting the outcome in the given batch
+   */
+  private async processBatch(
+    notes: DailyNote[],
+    signal: AbortSignal,
+    batch: BatchOutcome,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<void> {
+    // Each provider gets its own pool, so notes that pick another provider with
+    // journal-provider are limited by that provider's parallel requests
+    const notesByProvider = this.groupByProvider(notes);
+    const providers = Object.keys(notesByProvider) as AIProvider[];
+    logger.info(`Found ${notes.length} notes to process (${providers.map(provider => `${this.getConcurrencyLimit(provider)} at a time with ${provider}`).join(', ')})`);
+
+    // Create AI service
+    const aiService = AIServiceFactory.createService(this.settings.aiProvider, this.settings.aiConfig);
+
+    this.progress = { total: notes.length, finished: 0 };
+    onProgress?.(this.progress);
+    this.notifyStatus();
+
+    const processNote = async (dailyNote: DailyNote): Promise<void> => {
+      // After a cancel, leave the remaining notes for the next run
+      if (signal.aborted) {
+        batch.skipped.push(dailyNote.file);
+        return;
+      }
+
+      this.updateProgress({ currentDate: dailyNote.date }, onProgress);
+
+      try {
+        if (await this.processDailyNote(dailyNote, aiService, signal)) {
+          batch.processed++;
+          batch.completed.push(dailyNote.file);
+          this.pendingNotes.delete(dailyNote.file);
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          logger.info(`Processing cancelled: ${dailyNote.file}`);
+          batch.skipped.push(dailyNote.file);
+          return;
+        }
+
+        const errorMessage = `Failed to process ${dailyNote.file}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        logger.error(errorMessage, error);
+        batch.errors.push(errorMessage);
+        await this.ledger.recordFailure(dailyNote.date, error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        this.updateProgress({ finished: (this.progress?.finished || 0) + 1 }, onProgress);
+      }
+    };
+
+    await Promise.all(providers.map(provider =>
+      Concurrency.runPool(notesByProvider[provider] || [], this.getConcurrencyLimit(provider), processNote)
+    ));
+
+    if (signal.aborted) {
+      logger.info(`Processing cancelled: ${batch.completed.length} notes completed, ${batch.skipped.length} skipped`);
+    }
+  }
+
+  private createBatchOutcome(): BatchOutcome {
+    return { processed: 0, errors: [], completed: [], skipped: [] };
+  }
+
+  private toProcessingResult(batch: BatchOutcome, signal: AbortSignal, startTime: number): ProcessingResult {
+    return {
+      success: batch.errors.length === 0,
+      processed: batch.processed,
+      errors: batch.errors,
+      duration: Date.now() - startTime,
+      cancelled: signal.aborted,
+      completed: batch.completed,
+      skipped: batch.skipped
+    };
+  }
+
+  /**
+   * Generate and write the journal for a single daily note, or queue it as a
+   * draft in review mode. Returns false when the note was skipped; errors are
+   * left to the caller.
+   */
+  private async processDailyNote(dailyNote: DailyNote, aiService: AIService, signal?: AbortSignal): Promise<boolean> {
+    logger.debug(`Processing note: ${dailyNote.file}`);
+
+    // Decide what to do with notes that changed after their journal was written
+    if (dailyNote.sourceChanged) {
+      const decision = await this.resolveSourceChange(dailyNote);
+      
+      if (decision === 'ignore') {
+        await this.journalManager.acceptSourceChange(dailyNote);
+        return false;
+      }
+      
+      if (decision === 'later') {
+        logger.info(`Deferred regeneration of changed note: ${dailyNote.file}`);
+        return false;
+      }
+      
+      logger.info(`Regenerating journal for changed note: ${dailyNote.file}`);
+    }
+
+    const overrides = dailyNote.overrides || {};
+    
+    if (overrides.skip) {
+      logger.info(`Daily note opted out with journal: skip: ${dailyNote.file}`);
+      await this.ledger.recordSkipped(dailyNote.date, dailyNote.file, 'skipped-by-rule', 'journal: skip');
+      return false;
+    }
+
+    // Voice memos are only transcribed in generateDraft, once processing is certain
+    if (!this.prepareContentForAI(dailyNote).trim() && !(dailyNote.voiceMemos || []).length) {
+      logger.warn(`No content to process in: ${dailyNote.file}`);
+      await this.ledger.recordSkipped(dailyNote.date, dailyNote.file, 'skipped-empty');
+      return false;
+    }
+
+    // Kept so a cancelled attempt can be undone
+    const existing = this.ledger.get(dailyNote.date);
+    const previousRecord = existing ? { ...existing } : undefined;
+
+    let draft: JournalDraft;
+    try {
+      draft = await this.generateDraft(dailyNote, aiService, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.ledger.cancelAttempt(dailyNote.date, previousRecord);
+      }
+      throw error;
+    }
+
+    if (this.settings.reviewBeforeWriting) {
+      await this.drafts.add(draft);
+      await this.ledger.recordDraft(dailyNote.date);
+      this.notifyStatus();
+      logger.info(`Queued journal draft for review: ${dailyNote.file}`);
+      return true;
+    }
+
+    await this.journalManager.createJournalEntry(draft.dailyNote, draft.content, draft.sentiment);
+
+    await this.ledger.recordSuccess(dailyNote.date);
+
+    logger.info(`Successfully processed: ${dailyNote.file}`);
+    return true;
+  }
+
+  /**
+   * Ask the AI for the journal text of a daily note without writing anything.
+   * The draft holds the note with its voice memos transcribed.
+   */
+  private async generateDraft(
+    note: DailyNote,
+    aiService: AIService,
+    signal?: AbortSignal
+  ): Promise<JournalDraft> {
+    const overrides = note.overrides || {};
+
+    // Notes may pick their own provider, model, language and extra instructions
+    const { provider, config } = this.getAIConfigForNote(note);
+
+    // Count the attempt before anything can fail, so failing notes are given up on eventually
+    await this.ledger.recordAttempt(note.date, note.file, provider, config.model);
+    this.checkNoteProvider(provider, config);
+
+    const dailyNote = note.voiceMemos && note.voiceMemos.length > 0
+      ? await this.noteProcessor.transcribeVoiceMemos(note)
+      : note;
+
+    // Prepare content for AI processing
+    const logContent = this.prepareContentForAI(dailyNote);
+    if (!logContent.trim()) {
+      throw new Error('No processable content found in the note');
+    }
+
+    const noteService = provider === this.settings.aiProvider && config.model === this.settings.aiConfig.model
+      ? aiService
+      : AIServiceFactory.createService(provider, config);
+    const language = overrides.language || this.settings.outputLanguage;
+    const prompt = overrides.prompt
+      ? `${this.settings.customPrompt}\n\nAdditional instructions for this day:\n${overrides.prompt}`
+      : this.settings.customPrompt;
+
+    const images = await this.loadImagesForAI(dailyNote, provider);
+
+    // Process with AI
+    const aiResponse = await noteService.processContent(
+      logContent,
+      prompt,
+      language === 'auto' ? undefined : language,
+      signal,
+      images
+    );
+
+    return {
+      date: dailyNote.date,
+      dailyNote,
+      // Link the names the model was given back to their notes
+      content: LinkParser.restoreLinks(aiResponse.content, LinkParser.collectLinks(dailyNote.entries)),
+      sentiment: aiResponse.sentiment,
+      provider,
+      model: config.model,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Journal drafts waiting for review, oldest first
+   */
+  getDrafts(): JournalDraft[] {
+    return this.drafts.getAll();
+  }
+
+  /**
+   * Write a reviewed draft to the vault, optionally with edited text
+   */
+  async acceptDraft(date: string, content?: string): Promise<void> {
+    const draft = this.drafts.get(date);
+    if (!draft) {
+      throw new Error(`No journal draft for ${date}`);
+    }
+
+    await this.journalManager.createJournalEntry(draft.dailyNote, content ?? draft.content, draft.sentiment);
+    await this.ledger.recordSuccess(date);
+    await this.drafts.remove(date);
+
+    this.lastProcessingTime = new Date();
+    this.notifyStatus();
+    logger.info(`Accepted journal draft: ${draft.dailyNote.file}`);
+  }
+
+  /**
+   * Drop a draft without writing it. The date is dismissed so scheduled runs
+   * do not generate it again; retrying it from the failed notes brings it back.
+   */
+  async discardDraft(date: string): Promise<void> {
+    await this.drafts.remove(date);
+    await this.ledger.dismiss(date, 'Draft discarded');
+
+    this.notifyStatus();
+    logger.info(`Discarded journal draft for ${date}`);
+  }
+
+  /**
+   * Generate a draft again from the current version of its daily note
+   */
+  async regenerateDraft(date: string): Promise<JournalDraft> {
+    const draft = this.drafts.get(date);
+    if (!draft) {
+      throw new Error(`No journal draft for ${date}`);
+    }
+
+    try {
+      const loaded = await this.noteProcessor.loadDailyNote(draft.dailyNote.file);
+      const dailyNote = loaded ? { ...loaded, sourceChanged: draft.dailyNote.sourceChanged } : draft.dailyNote;
 
-      // Create AI service
       const aiService = AIServiceFactory.createService(this.settings.aiProvider, this.settings.aiConfig);
+      const regenerated = await this.generateDraft(dailyNote, aiService);
+
+      await this.drafts.add(regenerated);
+      await this.ledger.recordDraft(date);
+      return regenerated;
+    } catch (error) {
+      // The earlier draft is still there to accept or discard
+      await this.ledger.recordDraft(date);
+      throw new Error(`Failed to regenerate draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.notifyStatus();
+    }
+  }
+
+  /**
+   * Photos embedded in a daily note, scaled down within the provider's limits.
+   * Photos that cannot be read or decoded are left out.
+   */
+  private async loadImagesForAI(dailyNote: DailyNote, provider: AIProvider): Promise<AIImagePart[]> {
+    if (!this.settings.sendImagesToAI) {
+      return [];
+    }
+
+    const limits = this.settings.imageLimits[provider];
+    const paths = AttachmentUtils.collect(dailyNote.entries, Number.MAX_SAFE_INTEGER)
+      .map(attachment => attachment.path)
+      .filter(path => ImageUtils.canPrepare(path))
+      .slice(0, limits.maxImages);
+
+    const images: AIImagePart[] = [];
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path)
+        || this.app.metadataCache.getFirstLinkpathDest(path, dailyNote.file);
+
+      if (!(file instanceof TFile)) {
+        logger.warn(`Image not found, not sending it to the AI: ${path}`);
+        continue;
+      }
+
+      try {
+        images.push(await ImageUtils.prepareForUpload(await this.app.vault.readBinary(file), limits.maxDimension));
+      } catch (error) {
+        logger.warn(`Could not prepare image ${path}:`, error);
+      }
+    }
+
+    logger.debug(`Sending ${images.length} images from ${dailyNote.file}`);
+    return images;
+  }
 
-      // Process each note
-      for (const dailyNote of unprocessedNotes) {
-        try {
-          logger.debug(`Processing note: ${dailyNote.file}`);
-
-          // Prepare content for AI processing
-          const logContent = this.prepareContentForAI(dailyNote);
-          
-          if (!logContent.trim()) {
-            logger.warn(`No content to process in: ${dailyNote.file}`);
-            continue;
-          }
-
-          // Process with AI
-          const aiResponse = await aiService.processContent(
-            logContent,
-            this.settings.customPrompt,
-            this.settings.outputLanguage === 'auto' ? undefined : this.settings.outputLanguage
-          );
-
-          // Create journal entry
-          await this.journalManager.createJournalEntry(dailyNote, aiResponse.content, aiResponse.sentiment);
-
-          // No need to mark as processed - we use dynamic checking now
-
-          processedCount++;
-          logger.info(`Successfully processed: ${dailyNote.file}`);
-
-        } catch (error) {
-          const errorMessage = `Failed to process ${dailyNote.file}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-          logger.error(errorMessage, error);
-          errors.push(errorMessage);
+  /**
+   * Retry a failed note right away with a fresh attempt budget
+   */
+  async retryFailedNote(date: string): Promise<ProcessingResult> {
+    return this.runExclusive(`Retry failed for ${date}`, async (signal, batch, startTime) => {
+      const record = this.ledger.get(date);
+      if (!record || !record.sourceFile) {
+        throw new Error(`No failed note recorded for ${date}`);
+      }
+
+      await this.ledger.resetAttempts(date);
+
+      const dailyNote = await this.noteProcessor.loadDailyNote(record.sourceFile);
+      if (!dailyNote) {
+        throw new Error(`Daily note not found: ${record.sourceFile}`);
+      }
+
+      const aiService = AIServiceFactory.createService(this.settings.aiProvider, this.settings.aiConfig);
+      
+      let processed = false;
+      try {
+        processed = await this.processDailyNote(dailyNote, aiService, signal);
+      } catch (error) {
+        if (signal.aborted) {
+          return {
+            success: false,
+            processed: 0,
+            errors: ['Processing cancelled'],
+            duration: Date.now() - startTime,
+            cancelled: true,
+            completed: [],
+            skipped: [dailyNote.file]
+          };
         }
+        await this.ledger.recordFailure(date, error instanceof Error ? error.message : 'Unknown error');
+        throw error;
       }
 
       this.lastProcessingTime = new Date();
-      
-      const duration = Date.now() - startTime;
-      const result: ProcessingResult = {
-        success: errors.length === 0,
-        processed: processedCount,
-        errors,
-        duration
+
+      return {
+        success: true,
+        processed: processed ? 1 : 0,
+        errors: processed ? [] : ['Note had nothing to process'],
+        duration: Date.now() - startTime
       };
+    });
+  }
 
-      logger.logProcessingStats(processedCount, unprocessedNotes.length - processedCount, errors.length);
+  /**
+   * Determine whether a changed daily note should have its journal regenerated
+   */
+  private async resolveSourceChange(dailyNote: DailyNote): Promise<SourceChangeDecision> {
+    switch (this.settings.sourceChangeAction) {
+      case 'regenerate':
+        return 'regenerate';
       
-      return result;
+      case 'prompt':
+        if (!this.sourceChangeHandler) {
+          return 'later';
+        }
+        const handler = this.sourceChangeHandler;
+        return await this.promptQueue.run(() => handler(dailyNote));
+      
+      default:
+        return 'ignore';
+    }
+  }
+
+  /**
+   * Resolve the AI provider and configuration for a note, applying its
+   * journal-provider and journal-model overrides
+   */
+  private getAIConfigForNote(dailyNote: DailyNote): { provider: AIProvider; config: AIServiceConfig } {
+    const overrides = dailyNote.overrides || {};
+    const provider = overrides.provider || this.settings.aiProvider;
+
+    if (provider === this.settings.aiProvider) {
+      return {
+        provider,
+        config: { ...this.settings.aiConfig, model: overrides.model || this.settings.aiConfig.model }
+      };
+    }
+
+    // Another provider uses the credentials remembered for it in the settings
+    const credentials = this.settings.providerCredentials?.[provider] || {};
+    const config: AIServiceConfig = {
+      apiKey: credentials.apiKey || '',
+      endpoint: credentials.endpoint || (provider === 'ollama' ? 'http://localhost:11434' : ''),
+      model: overrides.model || AIServiceFactory.getFallbackModels(provider)[0] || ''
+    };
+
+    return { provider, config };
+  }
+
+  /**
+   * Fail when a note picks a provider that has no usable credentials remembered
+   */
+  private checkNoteProvider(provider: AIProvider, config: AIServiceConfig): void {
+    if (provider === this.settings.aiProvider) {
+      return;
+    }
+
+    const configErrors = AIServiceFactory.validateConfiguration(provider, config);
+    if (configErrors.length > 0) {
+      throw new Error(`journal-provider ${provider} is not configured: ${configErrors.join(', ')}`);
+    }
+  }
 
+  /**
+   * Mark a processing run as started and return its cancellation signal
+   */
+  /**
+   * Start a processing run unless one is already in progress. The run gets
+   * the abort signal, an empty batch and its start time; an error it throws
+   * becomes a failed result whose message starts with the label.
+   */
+  private async runExclusive(
+    label: string,
+    run: (signal: AbortSignal, batch: BatchOutcome, startTime: number) => Promise<ProcessingResult>
+  ): Promise<ProcessingResult> {
+    if (this.isProcessing) {
+      logger.warn('Processing already in progress, skipping');
+      return {
+        success: false,
+        processed: 0,
+        errors: ['Processing already in progress'],
+        duration: 0
+      };
+    }
+
+    const signal = this.beginRun();
+    const startTime = Date.now();
+    const batch = this.createBatchOutcome();
+
+    try {
+      return await run(signal, batch, startTime);
     } catch (error) {
-      const errorMessage = `Processing cycle failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      const errorMessage = `${label}: ${error instanceof Error ? error.message : 'Unknown error'}`;
       logger.error(errorMessage, error);
-      
+      this.lastError = errorMessage;
+
       return {
+        ...this.toProcessingResult(batch, signal, startTime),
         success: false,
-        processed: processedCount,
-        errors: [errorMessage, ...errors],
-        duration: Date.now() - startTime
+        errors: [errorMessage, ...batch.errors]
       };
     } finally {
-      this.isProcessing = false;
+      this.endRun();
     }
   }
 
+  private beginRun(): AbortSignal {
+    this.isProcessing = true;
+    this.abortController = new AbortController();
+    this.notifyStatus();
+    return this.abortController.signal;
+  }
+
+  private endRun(): void {
+    this.isProcessing = false;
+    this.abortController = null;
+    this.progress = null;
+    this.notifyStatus();
+  }
+
+  private notifyStatus(): void {
+    if (!this.statusListener) {
+      return;
+    }
+
+    try {
+      this.statusListener();
+    } catch (error) {
+      logger.error('Status listener failed:', error);
+    }
+  }
+
+  private updateProgress(
+    changes: Partial<ProcessingProgress>,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): void {
+    if (!this.progress) {
+      return;
+    }
+
+    this.progress = { ...this.progress, ...changes };
+    onProgress?.(this.progress);
+    this.notifyStatus();
+  }
+
+  /**
+   * Number of notes a provider may process in parallel
+   */
+  private getConcurrencyLimit(provider: AIProvider): number {
+    const limit = this.settings.maxConcurrentRequests?.[provider];
+    return limit && limit > 0 ? Math.floor(limit) : 1;
+  }
+
+  /**
+   * Split notes by the provider that will process them, keeping their order
+   */
+  private groupByProvider(notes: DailyNote[]): Partial<Record<AIProvider, DailyNote[]>> {
+    const groups: Partial<Record<AIProvider, DailyNote[]>> = {};
+
+    for (const note of notes) {
+      const provider = note.overrides?.provider || this.settings.aiProvider;
+      groups[provider] = (groups[provider] || []).concat(note);
+    }
+
+    return groups;
+  }
+
   /**
    * Prepare daily note content for AI processing
    */
-  private prepareContentForAI(dailyNote: any): string {
+  private prepareContentForAI(dailyNote: DailyNote): string {
     const entries = dailyNote.entries || [];
     
     if (entries.length === 0) {
       return '';
     }
 
-    // Join all log entries with newlines
-    const logEntries = entries.map((entry: any) => entry.content).join('\n');
+    // Join all log entries with newlines, prefixing the time of day when known
+    // so the model can follow the day's timeline
+    const formatEntry = (entry: DailyNoteEntry): string => entry.time ? `[${entry.time}] ${entry.content}` : entry.content;
+    const sections = [
+      entries.filter(entry => !entry.task).map(formatEntry).join('\n')
+    ];
+
+    // Tasks go in their own sections so they are not told as events of the day
+    const doneTasks = entries.filter(entry => entry.task === 'done');
+    if (doneTasks.length > 0) {
+      sections.push(`Accomplishments (tasks completed today):\n${doneTasks.map(entry => `- ${formatEntry(entry)}`).join('\n')}`);
+    }
+
+    const startedTasks = entries.filter(entry => entry.task === 'in-progress');
+    if (startedTasks.length > 0) {
+      sections.push(`Tasks in progress (started, not finished yet):\n${startedTasks.map(entry => `- ${formatEntry(entry)}`).join('\n')}`);
+    }
+
+    const openTasks = entries.filter(entry => entry.task === 'open');
+    if (openTasks.length > 0) {
+      sections.push(`Open tasks (planned, not done yet):\n${openTasks.map(entry => `- ${formatEntry(entry)}`).join('\n')}`);
+    }
     
-    return logEntries.trim();
+    return sections.filter(section => section.trim()).join('\n\n').trim();
   }
 
   /**
@@ -285,40 +1128,47 @@ export class Scheduler {
   getStatus(): {
     isRunning: boolean;
     isProcessing: boolean;
+    progress: ProcessingProgress | null;
+    pendingNotes: number;
+    queuedNotes: string[];
+    draftCount: number;
+    lastError: string | null;
     lastProcessingTime: Date | null;
     nextProcessingTime: Date | null;
   } {
-    let nextProcessingTime: Date | null = null;
-    
-    if (this.intervalId !== null && this.lastProcessingTime) {
-      nextProcessingTime = new Date(
-        this.lastProcessingTime.getTime() + (this.settings.checkFrequency * 60 * 1000)
-      );
-    }
+    // The startup catch-up run comes before anything on the schedule
+    const nextProcessingTime = this.startupRunTime || this.nextScheduledRun;
 
     return {
-      isRunning: this.intervalId !== null,
+      isRunning: this.isRunning,
       isProcessing: this.isProcessing,
+      progress: this.progress,
+      pendingNotes: this.pendingNotes.size,
+      queuedNotes: Array.from(this.queuedNotes),
+      draftCount: this.drafts.count(),
+      lastError: this.lastError,
       lastProcessingTime: this.lastProcessingTime,
       nextProcessingTime
     };
   }
 
   /**
-   * Update settings and restart if needed
+   * Update settings and reschedule if needed
    */
   updateSettings(newSettings: JournalPluginSettings): void {
-    const wasRunning = this.intervalId !== null;
-    const frequencyChanged = this.settings.checkFrequency !== newSettings.checkFrequency;
+    // Settings are usually edited in place, so compare with what the schedule was started from
+    const scheduleChanged = this.activeSchedule !== this.getScheduleKey(newSettings);
     
     this.settings = newSettings;
     this.noteProcessor.updateSettings(newSettings);
     this.journalManager.updateSettings(newSettings);
 
-    // Restart scheduler if frequency changed
-    if (wasRunning && frequencyChanged) {
-      logger.info('Restarting scheduler due to frequency change');
-      this.start();
+    // Reschedule without another catch-up run
+    if (this.isRunning && scheduleChanged) {
+      logger.info('Rescheduling due to schedule change');
+      this.stopSchedule();
+      this.startSchedule();
+      this.notifyStatus();
     }
   }
 
@@ -369,11 +1219,16 @@ export class Scheduler {
       errors.push(`Destination folder error: ${destValidation.error}`);
     }
 
-    // Validate frequency
-    if (this.settings.checkFrequency <= 0) {
+    // Validate schedule
+    if (this.settings.scheduleMode === 'interval' && this.settings.checkFrequency <= 0) {
       errors.push('Check frequency must be greater than 0');
     }
 
+    if ((this.settings.scheduleMode === 'daily' || this.settings.scheduleMode === 'weekdays')
+      && !ScheduleUtils.getNextRun(this.settings, new Date())) {
+      errors.push('The schedule has no run time or weekday selected');
+    }
+
     // Validate prompt
     if (!this.settings.customPrompt.trim()) {
       warnings.push('Custom prompt is empty, using default behavior');
@@ -387,22 +1242,27 @@ export class Scheduler {
   }
 
   /**
-   * Force processing of a specific note by deleting its journal counterpart
+   * Generate the journal for one daily note right away, overwriting an existing journal
    */
   async processSpecificNote(filePath: string): Promise<{
     success: boolean;
     error?: string;
   }> {
     try {
-      // With dynamic checking, we'd need to delete the corresponding journal file
-      // to force reprocessing. For now, just run the processing cycle as-is.
-      // The user could manually delete the journal file if they want to reprocess.
+      const [candidate] = await this.noteProcessor.findSelectedNotes([filePath]);
+      
+      if (!candidate || candidate.action === 'skip' || !candidate.dailyNote) {
+        return {
+          success: false,
+          error: `Nothing to generate for ${filePath}: ${candidate?.reason || 'not found'}`
+        };
+      }
       
-      // Run processing cycle
-      const result = await this.processNotes();
+      const result = await this.processSelectedNotes([candidate.dailyNote]);
       
       return {
-        success: result.success && result.processed > 0
+        success: result.success && result.processed > 0,
+        error: result.errors[0]
       };
     } catch (error) {
       return {
@@ -0,0 +1,225 @@
+import { App, TFile } from 'obsidian';
+import { JournalPluginSettings } from '../models/types';
+import { TimeParser } from '../utils/timeParser';
+import { TimeZoneUtils } from '../utils/timeZoneUtils';
+import { AttachmentUtils } from '../utils/attachmentUtils';
+import { logger } from '../utils/logger';
+
+const TRANSCRIPTION_TIMEOUT_MS = 120 * 1000;
+
+/**
+ * Turns voice memos embedded in daily notes into text entries using a
+ * Whisper-compatible endpoint (OpenAI /v1/audio/transcriptions, whisper.cpp server, ...).
+ * Transcripts are cached next to the audio file so each memo is sent only once.
+ */
+export class TranscriptionService {
+  private static readonly EMBED_PATTERN = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/;
+  // A recording time in the file name, e.g. "Recording 20240115093000" or "2024-01-15 09.30"
+  private static readonly NAME_TIME_PATTERN = /\d{4}-?\d{2}-?\d{2}[ T_-]?(\d{2})[.:-]?(\d{2})/;
+
+  private app: App;
+  private settings: JournalPluginSettings;
+
+  constructor(app: App, settings: JournalPluginSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Check whether a path points to an audio recording
+   */
+  static isAudio(path: string): boolean {
+    return AttachmentUtils.isAudio(path);
+  }
+
+  /**
+   * Path of the cached transcript of a recording, e.g. Recording 1234.transcript.txt
+   */
+  static getTranscriptPath(audioPath: string): string {
+    return `${audioPath.replace(/\.[^/.]+$/, '')}.transcript.txt`;
+  }
+
+  /**
+   * Time of day (HH:mm) a recording was made according to its file name
+   */
+  static getTimeFromName(audioPath: string): string | null {
+    const name = audioPath.substring(audioPath.lastIndexOf('/') + 1);
+    const match = name.match(this.NAME_TIME_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const time = `${match[1]}:${match[2]}`;
+    return TimeParser.isValidTime(time) ? time : null;
+  }
+
+  /**
+   * Paths of the voice memos embedded in a note body, without transcribing them
+   */
+  findVoiceMemos(body: string, sourcePath: string): string[] {
+    if (!this.settings.transcribeAudio) {
+      return [];
+    }
+
+    return body.split('\n')
+      .map(line => this.getAudioEmbeds(line, sourcePath))
+      .reduce((all, files) => all.concat(files.map(file => file.path)), [] as string[]);
+  }
+
+  /**
+   * Add a timestamped line with the transcript before every line that embeds
+   * a voice memo, so the memo becomes an entry of its own. The embed itself is
+   * kept and attaches the recording to the transcript entry. Fails when a memo
+   * cannot be transcribed, so the note is retried rather than journaled without it.
+   */
+  async transcribeEmbeds(body: string, sourcePath: string, dateKey: string, timeZone: string): Promise<string> {
+    if (!this.settings.transcribeAudio) {
+      return body;
+    }
+
+    const lines = body.split('\n');
+    const result: string[] = [];
+
+    for (const line of lines) {
+      for (const file of this.getAudioEmbeds(line, sourcePath)) {
+        const transcript = await this.getTranscript(file);
+        if (!transcript) {
+          continue;
+        }
+
+        const indent = line.match(/^\s*/)?.[0] || '';
+        const time = this.getLineTime(line) || TranscriptionService.getTimeFromName(file.path) || this.getCreationTime(file, dateKey, timeZone);
+        result.push(`${indent}- ${time ? `${time} ` : ''}${transcript.replace(/\s+/g, ' ')}`);
+      }
+
+      result.push(line);
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * Audio recordings embedded on a line
+   */
+  private getAudioEmbeds(line: string, sourcePath: string): TFile[] {
+    const embedPattern = new RegExp(TranscriptionService.EMBED_PATTERN.source, 'g');
+    const files: TFile[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = embedPattern.exec(line)) !== null) {
+      const file = this.app.metadataCache?.getFirstLinkpathDest(match[1].trim(), sourcePath);
+      if (file instanceof TFile && TranscriptionService.isAudio(file.path)) {
+        files.push(file);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Transcript of a recording, from the cache when it was transcribed before
+   */
+  async getTranscript(file: TFile): Promise<string> {
+    const transcriptPath = TranscriptionService.getTranscriptPath(file.path);
+    const cached = this.app.vault.getAbstractFileByPath(transcriptPath);
+
+    if (cached instanceof TFile) {
+      return (await this.app.vault.read(cached)).trim();
+    }
+
+    const transcript = await this.requestTranscript(file);
+    await this.app.vault.create(transcriptPath, transcript);
+    logger.info(`Transcribed ${file.path}`);
+
+    return transcript;
+  }
+
+  /**
+   * Update settings (when settings change)
+   */
+  updateSettings(newSettings: JournalPluginSettings): void {
+    this.settings = newSettings;
+  }
+
+  private async requestTranscript(file: TFile): Promise<string> {
+    const { transcriptionEndpoint, transcriptionModel } = this.settings;
+    if (!transcriptionEndpoint) {
+      throw new Error('No transcription endpoint configured');
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([await this.app.vault.readBinary(file)]), file.name);
+    form.append('model', transcriptionModel);
+    form.append('response_format', 'json');
+
+    const headers: Record<string, string> = {};
+    const apiKey = this.getApiKey();
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TRANSCRIPTION_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(transcriptionEndpoint, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (typeof data.text !== 'string') {
+        throw new Error('Response has no transcript text');
+      }
+
+      return data.text.trim();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Failed to transcribe ${file.name}: request timed out`);
+      }
+      throw new Error(`Failed to transcribe ${file.name}: ${error.message}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * The transcription key, or the remembered OpenAI key when using OpenAI's endpoint
+   */
+  private getApiKey(): string | undefined {
+    if (this.settings.transcriptionApiKey) {
+      return this.settings.transcriptionApiKey;
+    }
+
+    return this.settings.transcriptionEndpoint.includes('api.openai.com')
+      ? this.settings.providerCredentials.openai?.apiKey
+      : undefined;
+  }
+
+  /**
+   * Time written at the start of the embedding line, e.g. "- 09:30 ![[Recording.m4a]]"
+   */
+  private getLineTime(line: string): string | null {
+    const content = line.trim().replace(/^(?:[-*+]|\d+\.)\s*(?:\[.\]\s*)?/, '');
+    return TimeParser.extractLeadingTime(content)?.time || null;
+  }
+
+  /**
+   * Time the file was created, when that was on the note's day
+   */
+  private getCreationTime(file: TFile, dateKey: string, timeZone: string): string | null {
+    const created = new Date(file.stat.ctime);
+    if (TimeZoneUtils.getDateKey(created, timeZone) !== dateKey) {
+      return null;
+    }
+
+    const minutes = TimeZoneUtils.getMinutesOfDay(created, timeZone);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+}
@@ -1,8 +1,13 @@
-import { App, PluginSettingTab, Setting, DropdownComponent, TextAreaComponent, TFolder, FuzzySuggestModal, TextComponent, FuzzyMatch } from 'obsidian';
+import { App, PluginSettingTab, Setting, debounce, ButtonComponent, DropdownComponent, TextAreaComponent, TFolder, FuzzySuggestModal, TextComponent, FuzzyMatch } from 'obsidian';
 import JournalPlugin from '../main';
 import { AIServiceFactory } from '../services/ai/aiServiceFactory';
-import { AIProvider } from '../models/types';
+import { AIProvider, AttachmentPlacement, DEFAULT_SETTINGS, ScheduleMode, SourceChangeAction } from '../models/types';
 import { logger } from '../utils/logger';
+import { SectionParser } from '../utils/sectionParser';
+import { TimeParser } from '../utils/timeParser';
+import { TimeZoneUtils } from '../utils/timeZoneUtils';
+import { ScheduleUtils } from '../utils/scheduleUtils';
+import { DailyNotesConfig } from '../utils/dailyNotesConfig';
 
 class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
   private onSelect: (folder: TFolder) => void;
@@ -174,6 +179,11 @@ class FolderSuggest {
 export class JournalPluginSettingTab extends PluginSettingTab {
   plugin: JournalPlugin;
   private aiConfigContainer: HTMLElement;
+  private scheduleContainer: HTMLElement;
+  private transcriptionContainer: HTMLElement;
+  private formatCheckEl: HTMLElement | null = null;
+  // Rescanning the source folder on every keystroke is slow in large vaults
+  private refreshFormatCheckSoon = debounce(() => this.refreshFormatCheck(), 500, true);
   private modelCache: Map<AIProvider, string[]> = new Map();
   private lastCacheTime: Map<AIProvider, number> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -191,6 +201,7 @@ export class JournalPluginSettingTab extends PluginSettingTab {
 
     this.addBasicSettings();
     this.addAISettings();
+    this.addTranscriptionSettings();
     this.addSchedulingSettings();
     this.addAdvancedSettings();
     this.addActionButtons();
@@ -202,6 +213,8 @@ export class JournalPluginSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h3', { text: 'Basic Settings' });
 
+    this.addDailyNotesImport();
+
     // Source folder
     new Setting(containerEl)
       .setName('Source folder')
@@ -213,25 +226,75 @@ export class JournalPluginSettingTab extends PluginSettingTab {
           .onChange(async (value) => {
             this.plugin.settings.sourceFolder = value.trim() || 'Daily Notes';
             await this.plugin.saveSettings();
+            this.refreshFormatCheckSoon();
           });
         
         // Add folder suggestion
         new FolderSuggest(this.app, text, async (value) => {
           this.plugin.settings.sourceFolder = value || 'Daily Notes';
           await this.plugin.saveSettings();
+          this.refreshFormatCheck();
         });
       });
 
     // Date format
-    new Setting(containerEl)
+    const dateFormatSetting = new Setting(containerEl)
       .setName('Date format')
-      .setDesc('Date format used in daily note filenames (e.g., YYYY-MM-DD)')
+      .setDesc('Date format used in daily note filenames (e.g., YYYY-MM-DD). May include folders, e.g., YYYY/MM/DD for Daily Notes/2024/02/17.md')
       .addText(text => text
         .setPlaceholder('YYYY-MM-DD')
         .setValue(this.plugin.settings.dateFormat)
         .onChange(async (value) => {
           this.plugin.settings.dateFormat = value.trim() || 'YYYY-MM-DD';
           await this.plugin.saveSettings();
+          this.refreshFormatCheckSoon();
+        }));
+
+    this.formatCheckEl = dateFormatSetting.descEl.createDiv({ cls: 'journal-format-check' });
+    this.refreshFormatCheck();
+
+    // Section filters
+    new Setting(containerEl)
+      .setName('Include only under headings')
+      .setDesc('Comma-separated headings whose sections feed the journal, including nested sub-headings (e.g., Log, Journal). Leave empty to use the whole note.')
+      .addText(text => text
+        .setPlaceholder('Log')
+        .setValue(this.plugin.settings.includeHeadings.join(', '))
+        .onChange(async (value) => {
+          this.plugin.settings.includeHeadings = SectionParser.parseHeadingList(value);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Exclude under headings')
+      .setDesc('Comma-separated headings whose sections, including nested sub-headings, are never used (e.g., Tasks, Meetings)')
+      .addText(text => text
+        .setPlaceholder('Tasks, Meetings')
+        .setValue(this.plugin.settings.excludeHeadings.join(', '))
+        .onChange(async (value) => {
+          this.plugin.settings.excludeHeadings = SectionParser.parseHeadingList(value);
+          await this.plugin.saveSettings();
+        }));
+
+    // Tasks
+    new Setting(containerEl)
+      .setName('Include open tasks')
+      .setDesc('Send unchecked (- [ ] ...) and in-progress (- [/] ...) tasks to the AI as plans and unfinished work. When off they are left out; completed tasks are always sent as accomplishments and cancelled ones (- [-] ...) never are.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.includeOpenTasks)
+        .onChange(async (value) => {
+          this.plugin.settings.includeOpenTasks = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('"Done today" list')
+      .setDesc('Add a list of the completed tasks (- [x] ...), including nested ones, to the journal exactly as written, independent of the AI')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.doneTodayList)
+        .onChange(async (value) => {
+          this.plugin.settings.doneTodayList = value;
+          await this.plugin.saveSettings();
         }));
 
     // Destination folder
@@ -257,7 +320,7 @@ export class JournalPluginSettingTab extends PluginSettingTab {
     // Journal filename format
     new Setting(containerEl)
       .setName('Journal filename format')
-      .setDesc('Format for journal entry filenames (supports date formatting)')
+      .setDesc('Format for journal entry filenames (supports date formatting). Use / to create subfolders, e.g., YYYY/MMMM/Journal-YYYY-MM-DD.md')
       .addText(text => text
         .setPlaceholder('Journal-YYYY-MM-DD.md')
         .setValue(this.plugin.settings.journalFileNameFormat)
@@ -266,6 +329,43 @@ export class JournalPluginSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // Attachments
+    new Setting(containerEl)
+      .setName('Images and attachments')
+      .setDesc('Where images and files embedded in the daily note (e.g. ![[IMG_1234.jpg]]) go in the journal')
+      .addDropdown(dropdown => dropdown
+        .addOption('gallery', 'Gallery at the end')
+        .addOption('inline', 'Next to the related paragraph')
+        .addOption('none', 'Leave them out')
+        .setValue(this.plugin.settings.attachmentPlacement)
+        .onChange(async (value: AttachmentPlacement) => {
+          this.plugin.settings.attachmentPlacement = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Maximum attachments')
+      .setDesc('Most images and files carried into one journal; later ones are left out')
+      .addSlider(slider => slider
+        .setLimits(1, 50, 1)
+        .setValue(this.plugin.settings.maxAttachments)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.maxAttachments = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show photos to the AI')
+      .setDesc('Send the day\'s photos along with the log so the journal can describe them. Needs a vision-capable model (e.g. gpt-4o, Gemini, llava).')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.sendImagesToAI)
+        .onChange(async (value) => {
+          this.plugin.settings.sendImagesToAI = value;
+          await this.plugin.saveSettings();
+          this.refreshAIConfigSettings();
+        }));
+
     // Output language
     new Setting(containerEl)
       .setName('Output language')
@@ -289,6 +389,65 @@ export class JournalPluginSettingTab extends PluginSettingTab {
         }));
   }
 
+  /**
+   * Offer to take the folder and date format from the Periodic Notes or
+   * core Daily Notes plugin when they differ from the current settings
+   */
+  private addDailyNotesImport(): void {
+    const detected = DailyNotesConfig.detect(this.app)[0];
+    if (!detected) {
+      return;
+    }
+
+    const { sourceFolder, dateFormat } = this.plugin.settings;
+    if (detected.folder === sourceFolder && detected.format === dateFormat) {
+      return;
+    }
+
+    const check = DailyNotesConfig.checkFormat(this.app, detected.folder, detected.format);
+
+    new Setting(this.containerEl)
+      .setName(`Use ${detected.source} settings`)
+      .setDesc(`${detected.source} keeps daily notes in "${detected.folder}" named ${detected.format} (${check.parsed} of ${check.total} notes match).`)
+      .addButton(button => button
+        .setButtonText('Import')
+        .setCta()
+        .onClick(async () => {
+          this.plugin.settings.sourceFolder = detected.folder;
+          this.plugin.settings.dateFormat = detected.format;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+  }
+
+  /**
+   * Report how many notes in the source folder the date format matches
+   */
+  private refreshFormatCheck(): void {
+    if (!this.formatCheckEl) {
+      return;
+    }
+
+    const { sourceFolder, dateFormat } = this.plugin.settings;
+    const check = DailyNotesConfig.checkFormat(this.app, sourceFolder, dateFormat);
+    this.formatCheckEl.empty();
+
+    if (check.total === 0) {
+      this.formatCheckEl.setText(`No notes in "${sourceFolder}" to check the format against yet.`);
+      return;
+    }
+
+    let text = check.parsed === check.total
+      ? `✅ All ${check.total} notes match this format.`
+      : `${check.parsed === 0 ? '❌' : '⚠️'} ${check.parsed} of ${check.total} notes match this format.`;
+
+    if (check.suggestedFormat) {
+      text += ` Most file names look like ${check.suggestedFormat}.`;
+    }
+
+    this.formatCheckEl.setText(text);
+  }
+
   private addAISettings(): void {
     const { containerEl } = this;
 
@@ -316,11 +475,12 @@ export class JournalPluginSettingTab extends PluginSettingTab {
             this.modelCache.clear();
             this.lastCacheTime.clear();
             
-            // Reset config when provider changes
+            // Reset config when provider changes, restoring credentials used with it before
             const fallbackModels = AIServiceFactory.getFallbackModels(value);
+            const credentials = this.plugin.settings.providerCredentials[value] || {};
             this.plugin.settings.aiConfig.model = fallbackModels[0] || '';
-            this.plugin.settings.aiConfig.apiKey = '';
-            this.plugin.settings.aiConfig.endpoint = value === 'ollama' ? 'http://localhost:11434' : '';
+            this.plugin.settings.aiConfig.apiKey = credentials.apiKey || '';
+            this.plugin.settings.aiConfig.endpoint = credentials.endpoint || (value === 'ollama' ? 'http://localhost:11434' : '');
             
             await this.plugin.saveSettings();
             
@@ -562,6 +722,7 @@ export class JournalPluginSettingTab extends PluginSettingTab {
           .setValue(this.plugin.settings.aiConfig.apiKey || '')
           .onChange(async (value) => {
             this.plugin.settings.aiConfig.apiKey = value.trim();
+            this.rememberCredentials();
             await this.plugin.saveSettings();
             
             // Clear cache when API key changes
@@ -583,6 +744,7 @@ export class JournalPluginSettingTab extends PluginSettingTab {
           .setValue(this.plugin.settings.aiConfig.endpoint || 'http://localhost:11434')
           .onChange(async (value) => {
             this.plugin.settings.aiConfig.endpoint = value.trim() || 'http://localhost:11434';
+            this.rememberCredentials();
             await this.plugin.saveSettings();
             
             // Clear cache when endpoint changes
@@ -593,6 +755,60 @@ export class JournalPluginSettingTab extends PluginSettingTab {
             this.triggerModelRefresh();
           }));
     }
+
+    // Parallel requests (kept separately for each provider)
+    new Setting(this.aiConfigContainer)
+      .setName('Parallel requests')
+      .setDesc('How many notes to send to this provider at the same time, including notes that pick it with journal-provider. Local models usually work best with 1.')
+      .addSlider(slider => slider
+        .setLimits(1, 8, 1)
+        .setValue(this.plugin.settings.maxConcurrentRequests[provider])
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.maxConcurrentRequests[provider] = value;
+          await this.plugin.saveSettings();
+        }));
+
+    // Photo limits (kept separately for each provider)
+    if (this.plugin.settings.sendImagesToAI) {
+      const imageLimits = this.plugin.settings.imageLimits[provider];
+
+      new Setting(this.aiConfigContainer)
+        .setName('Photos per journal')
+        .setDesc('Most photos sent to this provider for one day; later ones are left out')
+        .addSlider(slider => slider
+          .setLimits(1, 20, 1)
+          .setValue(imageLimits.maxImages)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            imageLimits.maxImages = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(this.aiConfigContainer)
+        .setName('Photo size')
+        .setDesc('Longest side in pixels; larger photos are scaled down on this device before upload')
+        .addSlider(slider => slider
+          .setLimits(256, 3072, 128)
+          .setValue(imageLimits.maxDimension)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            imageLimits.maxDimension = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+  }
+
+  /**
+   * Remember the current provider's credentials so they survive switching providers
+   * and can be used by notes that override the provider
+   */
+  private rememberCredentials(): void {
+    const { aiProvider, aiConfig } = this.plugin.settings;
+    this.plugin.settings.providerCredentials[aiProvider] = {
+      apiKey: aiConfig.apiKey,
+      endpoint: aiConfig.endpoint
+    };
   }
 
   /**
@@ -620,59 +836,236 @@ export class JournalPluginSettingTab extends PluginSettingTab {
     }
   }
 
+  private addTranscriptionSettings(): void {
+    const { containerEl } = this;
+
+    containerEl.createEl('h3', { text: 'Voice Memos' });
+
+    new Setting(containerEl)
+      .setName('Transcribe voice memos')
+      .setDesc('Turn recordings embedded in daily notes (e.g. ![[Recording 20240115093000.webm]]) into timestamped entries. Transcripts are saved next to the recording, so each one is sent only once.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.transcribeAudio)
+        .onChange(async (value) => {
+          this.plugin.settings.transcribeAudio = value;
+          await this.plugin.saveSettings();
+          this.refreshTranscriptionSettings();
+        }));
+
+    this.transcriptionContainer = containerEl.createDiv();
+    this.refreshTranscriptionSettings();
+  }
+
+  private refreshTranscriptionSettings(): void {
+    this.transcriptionContainer.empty();
+
+    if (!this.plugin.settings.transcribeAudio) {
+      return;
+    }
+
+    new Setting(this.transcriptionContainer)
+      .setName('Transcription endpoint')
+      .setDesc('Whisper-compatible URL, e.g. OpenAI or a local whisper.cpp server (http://localhost:8080/inference)')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.transcriptionEndpoint)
+        .setValue(this.plugin.settings.transcriptionEndpoint)
+        .onChange(async (value) => {
+          this.plugin.settings.transcriptionEndpoint = value.trim() || DEFAULT_SETTINGS.transcriptionEndpoint;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(this.transcriptionContainer)
+      .setName('Transcription model')
+      .setDesc('Model name sent with each recording (ignored by whisper.cpp)')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.transcriptionModel)
+        .setValue(this.plugin.settings.transcriptionModel)
+        .onChange(async (value) => {
+          this.plugin.settings.transcriptionModel = value.trim() || DEFAULT_SETTINGS.transcriptionModel;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(this.transcriptionContainer)
+      .setName('Transcription API key')
+      .setDesc('Leave empty for local servers, or to use your OpenAI key with the OpenAI endpoint')
+      .addText(text => text
+        .setPlaceholder('Enter your API key')
+        .setValue(this.plugin.settings.transcriptionApiKey)
+        .onChange(async (value) => {
+          this.plugin.settings.transcriptionApiKey = value.trim();
+          await this.plugin.saveSettings();
+        }));
+  }
+
   private addSchedulingSettings(): void {
     const { containerEl } = this;
 
     containerEl.createEl('h3', { text: 'Scheduling' });
 
-    let sliderComponent: any;
-    let textComponent: any;
+    // Schedule mode
+    new Setting(containerEl)
+      .setName('Schedule')
+      .setDesc('When journals are generated on their own. Every mode also catches up shortly after Obsidian starts.')
+      .addDropdown(dropdown => dropdown
+        .addOption('interval', 'As notes change')
+        .addOption('daily', 'Daily at fixed times')
+        .addOption('weekdays', 'On specific weekdays')
+        .addOption('startup', 'On startup only')
+        .setValue(this.plugin.settings.scheduleMode)
+        .onChange(async (value: ScheduleMode) => {
+          this.plugin.settings.scheduleMode = value;
+          await this.plugin.saveSettings();
+          this.refreshScheduleSettings();
+        }));
+
+    this.scheduleContainer = containerEl.createDiv();
+    this.refreshScheduleSettings();
 
-    // Check frequency
+    // End of the day for notes written after midnight
     new Setting(containerEl)
-      .setName('Check frequency')
-      .setDesc('How often to check for new daily notes (in minutes)')
-      .addSlider(slider => {
-        sliderComponent = slider;
-        slider
-          .setLimits(5, 1440, 5) // 5 minutes to 24 hours
-          .setValue(this.plugin.settings.checkFrequency)
-          .setDynamicTooltip()
-          .onChange(async (value) => {
-            this.plugin.settings.checkFrequency = value;
-            try {
-              await this.plugin.saveSettings();
-            } catch (error) {
-              console.error('Slider save failed:', error);
-            }
-            // Update the text input to stay in sync
-            if (textComponent) {
-              textComponent.setValue(value.toString());
-            }
-          });
-        return slider;
-      })
-      .addText(text => {
-        textComponent = text;
-        text
-          .setValue(this.plugin.settings.checkFrequency.toString())
-          .onChange(async (value) => {
-            const numValue = parseInt(value);
-            if (!isNaN(numValue) && numValue >= 5 && numValue <= 1440) {
-              this.plugin.settings.checkFrequency = numValue;
+      .setName('Day ends at')
+      .setDesc('Time (HH:mm, 24h) after which the previous day counts as finished. Use e.g. 04:00 if you keep writing in a note after midnight.')
+      .addText(text => text
+        .setPlaceholder('00:00')
+        .setValue(this.plugin.settings.dayEndsAt)
+        .onChange(async (value) => {
+          if (TimeParser.isValidTime(value)) {
+            this.plugin.settings.dayEndsAt = value.trim();
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    // Home timezone
+    new Setting(containerEl)
+      .setName('Home timezone')
+      .setDesc('IANA timezone (e.g. Europe/Berlin) used to decide when a day is over and to timestamp journals. Leave empty to use the device timezone. A daily note can override it with journal-timezone frontmatter.')
+      .addText(text => text
+        .setPlaceholder(TimeZoneUtils.getSystemTimeZone())
+        .setValue(this.plugin.settings.homeTimeZone)
+        .onChange(async (value) => {
+          if (!value.trim() || TimeZoneUtils.isValidTimeZone(value)) {
+            this.plugin.settings.homeTimeZone = value.trim();
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    // Quiet period after the last edit
+    new Setting(containerEl)
+      .setName('Quiet period after last edit')
+      .setDesc('Only process a note once it has not been modified for this many minutes (0 = no wait)')
+      .addSlider(slider => slider
+        .setLimits(0, 240, 5)
+        .setValue(this.plugin.settings.quietPeriodMinutes)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.quietPeriodMinutes = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  /**
+   * Render the controls of the selected schedule mode
+   */
+  private refreshScheduleSettings(): void {
+    this.scheduleContainer.empty();
+    const mode = this.plugin.settings.scheduleMode;
+
+    if (mode === 'interval') {
+      let sliderComponent: any;
+      let textComponent: any;
+
+      // Check frequency
+      new Setting(this.scheduleContainer)
+        .setName('Safety sweep interval')
+        .setDesc('Daily notes are picked up as soon as they change or their day ends. This full rescan of the source folder (in minutes) catches anything missed, e.g. notes synced while Obsidian was closed.')
+        .addSlider(slider => {
+          sliderComponent = slider;
+          slider
+            .setLimits(5, 1440, 5) // 5 minutes to 24 hours
+            .setValue(this.plugin.settings.checkFrequency)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.checkFrequency = value;
               try {
                 await this.plugin.saveSettings();
               } catch (error) {
-                console.error('Text save failed:', error);
+                console.error('Slider save failed:', error);
               }
-              // Update the slider to stay in sync
-              if (sliderComponent) {
-                sliderComponent.setValue(numValue);
+              // Update the text input to stay in sync
+              if (textComponent) {
+                textComponent.setValue(value.toString());
               }
-            }
-          });
-        return text;
+            });
+          return slider;
+        })
+        .addText(text => {
+          textComponent = text;
+          text
+            .setValue(this.plugin.settings.checkFrequency.toString())
+            .onChange(async (value) => {
+              const numValue = parseInt(value);
+              if (!isNaN(numValue) && numValue >= 5 && numValue <= 1440) {
+                this.plugin.settings.checkFrequency = numValue;
+                try {
+                  await this.plugin.saveSettings();
+                } catch (error) {
+                  console.error('Text save failed:', error);
+                }
+                // Update the slider to stay in sync
+                if (sliderComponent) {
+                  sliderComponent.setValue(numValue);
+                }
+              }
+            });
+          return text;
+        });
+      return;
+    }
+
+    if (mode === 'startup') {
+      this.scheduleContainer.createEl('p', {
+        text: 'Journals are generated once, shortly after Obsidian starts. Use "Process daily notes now" to run in between.',
+        cls: 'setting-item-description'
+      });
+      return;
+    }
+
+    // Run times of the daily and weekdays modes
+    new Setting(this.scheduleContainer)
+      .setName('Run at')
+      .setDesc('Comma-separated times (HH:mm, 24h) in the home timezone, e.g. 23:30 or 07:00, 23:30')
+      .addText(text => text
+        .setPlaceholder('23:30')
+        .setValue(this.plugin.settings.scheduleTimes.join(', '))
+        .onChange(async (value) => {
+          const times = ScheduleUtils.parseTimeList(value);
+          if (times.length > 0) {
+            this.plugin.settings.scheduleTimes = times;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    if (mode === 'weekdays') {
+      const weekdaySetting = new Setting(this.scheduleContainer)
+        .setName('Weekdays')
+        .setDesc('Days the schedule runs on');
+
+      ScheduleUtils.WEEKDAY_NAMES.forEach((name, day) => {
+        const label = weekdaySetting.controlEl.createEl('label', { cls: 'journal-weekday-option' });
+        const checkbox = label.createEl('input', { type: 'checkbox' });
+        checkbox.checked = this.plugin.settings.scheduleWeekdays.includes(day);
+        label.appendText(name);
+
+        checkbox.addEventListener('change', async () => {
+          const weekdays = this.plugin.settings.scheduleWeekdays.filter(selected => selected !== day);
+          if (checkbox.checked) {
+            weekdays.push(day);
+          }
+          this.plugin.settings.scheduleWeekdays = weekdays.sort((a, b) => a - b);
+          await this.plugin.saveSettings();
+        });
       });
+    }
   }
 
   private addAdvancedSettings(): void {
@@ -708,6 +1101,57 @@ export class JournalPluginSettingTab extends PluginSettingTab {
         .onClick(() => {
           // This is just an informational setting
         }));
+
+    // Retry limit for failing notes
+    new Setting(containerEl)
+      .setName('Maximum attempts per note')
+      .setDesc('Failed notes are retried with increasing delays (15 minutes, 30 minutes, 1 hour, ... up to a day) and given up after this many attempts')
+      .addSlider(slider => slider
+        .setLimits(1, 10, 1)
+        .setValue(this.plugin.settings.maxRetryAttempts)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.maxRetryAttempts = value;
+          await this.plugin.saveSettings();
+        }));
+
+    // Changed source notes
+    new Setting(containerEl)
+      .setName('When a daily note changes')
+      .setDesc('What to do when a daily note is edited after its journal was generated (detected with a content hash stored in the journal)')
+      .addDropdown(dropdown => dropdown
+        .addOption('ignore', 'Keep existing journal')
+        .addOption('regenerate', 'Regenerate journal')
+        .addOption('prompt', 'Ask me for each note')
+        .setValue(this.plugin.settings.sourceChangeAction)
+        .onChange(async (value: SourceChangeAction) => {
+          this.plugin.settings.sourceChangeAction = value;
+          await this.plugin.saveSettings();
+        }));
+
+    // Review mode
+    new Setting(containerEl)
+      .setName('Review before writing')
+      .setDesc('Keep generated journals as drafts until you accept, edit, regenerate or discard them. Scheduled runs queue their drafts; open them with "Review journal drafts" or from the status bar')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.reviewBeforeWriting)
+        .onChange(async (value) => {
+          this.plugin.settings.reviewBeforeWriting = value;
+          await this.plugin.saveSettings();
+        }));
+
+    // Journal version history
+    new Setting(containerEl)
+      .setName('Versions kept per journal')
+      .setDesc('When a journal is regenerated or restored, the replaced version is saved in the plugin folder, one file per date in journal-history, so it can be compared and restored. Set to 0 to keep none')
+      .addSlider(slider => slider
+        .setLimits(0, 30, 1)
+        .setValue(this.plugin.settings.journalVersionsToKeep)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.journalVersionsToKeep = value;
+          await this.plugin.saveSettings();
+        }));
   }
 
   private addActionButtons(): void {
@@ -747,6 +1191,8 @@ export class JournalPluginSettingTab extends PluginSettingTab {
         }));
 
     // Manual processing trigger
+    let cancelButton: ButtonComponent;
+    
     new Setting(containerEl)
       .setName('Process notes now')
       .setDesc('Manually trigger processing of daily notes')
@@ -755,9 +1201,21 @@ export class JournalPluginSettingTab extends PluginSettingTab {
         .onClick(async () => {
           button.setButtonText('Processing...');
           button.setDisabled(true);
+          cancelButton.setDisabled(false);
           
           try {
-            const result = await this.plugin.scheduler.processNotes();
+            const result = await this.plugin.scheduler.processNotes(progress => {
+              button.setButtonText(`Processing ${Math.min(progress.finished + 1, progress.total)} of ${progress.total}...`);
+            });
+            
+            if (result.cancelled) {
+              const statusEl = containerEl.createEl('pre', {
+                text: this.plugin.describeCancelledRun(result),
+                cls: 'mod-warning status-display'
+              });
+              setTimeout(() => statusEl.remove(), 10000);
+              return;
+            }
             
             const statusEl = containerEl.createEl('div', {
               text: `✅ Processed ${result.processed} notes in ${(result.duration / 1000).toFixed(1)}s`,
@@ -780,8 +1238,22 @@ export class JournalPluginSettingTab extends PluginSettingTab {
           } finally {
             button.setButtonText('Process Now');
             button.setDisabled(false);
+            cancelButton.setButtonText('Cancel');
+            cancelButton.setDisabled(true);
           }
-        }));
+        }))
+      .addButton(button => {
+        cancelButton = button;
+        button
+          .setButtonText('Cancel')
+          .setDisabled(true)
+          .onClick(() => {
+            if (this.plugin.scheduler.cancelProcessing()) {
+              button.setButtonText('Cancelling...');
+              button.setDisabled(true);
+            }
+          });
+      });
 
     // Validation
     new Setting(containerEl)
@@ -0,0 +1,167 @@
+import { App, Modal, Setting, ButtonComponent } from 'obsidian';
+import JournalPlugin from '../main';
+import { BackfillCandidate, BackfillOverwritePolicy } from '../models/types';
+import { TimeZoneUtils } from '../utils/timeZoneUtils';
+import { logger } from '../utils/logger';
+
+/**
+ * Picks a date range and overwrite policy, previews the matching daily notes
+ * and starts a backfill for them
+ */
+export class BackfillModal extends Modal {
+  private plugin: JournalPlugin;
+  private startDate: string;
+  private endDate: string;
+  private overwritePolicy: BackfillOverwritePolicy = 'skip-existing';
+  private previewEl: HTMLElement;
+  private generateButton: ButtonComponent;
+  private previewRequest = 0;
+
+  constructor(app: App, plugin: JournalPlugin) {
+    super(app);
+    this.plugin = plugin;
+
+    // Default to the last seven finished days in the home timezone
+    const today = TimeZoneUtils.getDateKey(new Date(), TimeZoneUtils.resolveTimeZone(plugin.settings.homeTimeZone));
+    this.endDate = TimeZoneUtils.addDays(today, -1);
+    this.startDate = TimeZoneUtils.addDays(today, -7);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h3', { text: 'Generate journals for date range' });
+
+    new Setting(contentEl)
+      .setName('Start date')
+      .addText(text => {
+        text.inputEl.type = 'date';
+        text
+          .setValue(this.startDate)
+          .onChange(value => {
+            this.startDate = value;
+            this.refreshPreview();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('End date')
+      .addText(text => {
+        text.inputEl.type = 'date';
+        text
+          .setValue(this.endDate)
+          .onChange(value => {
+            this.endDate = value;
+            this.refreshPreview();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Existing journals')
+      .setDesc('What to do with days that already have a journal')
+      .addDropdown(dropdown => dropdown
+        .addOption('skip-existing', 'Keep them')
+        .addOption('overwrite-changed', 'Regenerate if the daily note changed')
+        .addOption('overwrite-all', 'Regenerate all')
+        .setValue(this.overwritePolicy)
+        .onChange((value: BackfillOverwritePolicy) => {
+          this.overwritePolicy = value;
+          this.refreshPreview();
+        }));
+
+    this.previewEl = contentEl.createDiv({ cls: 'journal-backfill-preview' });
+
+    new Setting(contentEl)
+      .addButton(button => {
+        this.generateButton = button;
+        button
+          .setButtonText('Generate')
+          .setCta()
+          .setDisabled(true)
+          .onClick(() => {
+            this.close();
+            this.plugin.runBackfill(this.startDate, this.endDate, this.overwritePolicy);
+          });
+      })
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()));
+
+    this.refreshPreview();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async refreshPreview(): Promise<void> {
+    // Ignore results of earlier previews that finish after a newer one started
+    const request = ++this.previewRequest;
+    this.generateButton.setDisabled(true);
+    this.previewEl.empty();
+
+    if (!this.startDate || !this.endDate) {
+      this.previewEl.createEl('p', { text: 'Choose a start and end date.' });
+      return;
+    }
+
+    if (this.startDate > this.endDate) {
+      this.previewEl.createEl('p', { text: 'The start date must not be after the end date.', cls: 'mod-warning' });
+      return;
+    }
+
+    this.previewEl.createEl('p', { text: 'Looking for daily notes...' });
+
+    let candidates: BackfillCandidate[];
+    try {
+      candidates = await this.plugin.noteProcessor.findDailyNotesInRange(this.startDate, this.endDate, this.overwritePolicy);
+    } catch (error) {
+      logger.error('Backfill preview failed:', error);
+      if (request === this.previewRequest) {
+        this.previewEl.empty();
+        this.previewEl.createEl('p', { text: `❌ ${error.message}`, cls: 'mod-error' });
+      }
+      return;
+    }
+
+    if (request !== this.previewRequest) {
+      return;
+    }
+
+    this.renderPreview(candidates);
+  }
+
+  private renderPreview(candidates: BackfillCandidate[]): void {
+    this.previewEl.empty();
+
+    if (candidates.length === 0) {
+      this.previewEl.createEl('p', { text: 'No daily notes found in this range.' });
+      return;
+    }
+
+    const toCreate = candidates.filter(c => c.action === 'create').length;
+    const toOverwrite = candidates.filter(c => c.action === 'overwrite').length;
+    const toSkip = candidates.filter(c => c.action === 'skip').length;
+
+    this.previewEl.createEl('p', {
+      text: `${candidates.length} daily notes: ${toCreate} new, ${toOverwrite} to regenerate, ${toSkip} skipped`
+    });
+
+    const listEl = this.previewEl.createEl('ul', { cls: 'journal-backfill-list' });
+    for (const candidate of candidates) {
+      const label = candidate.action === 'create'
+        ? '🆕 new journal'
+        : candidate.action === 'overwrite'
+          ? `♻️ regenerate (${candidate.reason})`
+          : `⏭️ skip (${candidate.reason})`;
+
+      listEl.createEl('li', { text: `${candidate.date} — ${label}` });
+    }
+
+    const total = toCreate + toOverwrite;
+    this.generateButton
+      .setButtonText(total > 0 ? `Generate ${total} journals` : 'Generate')
+      .setDisabled(total === 0);
+  }
+}
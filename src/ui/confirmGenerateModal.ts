@@ -0,0 +1,81 @@
+import { App, Modal, Setting } from 'obsidian';
+import { BackfillCandidate } from '../models/types';
+
+/**
+ * Asks before generating journals for hand-picked daily notes when that would
+ * overwrite an existing journal or write one for a day that is not over yet
+ */
+export class ConfirmGenerateModal extends Modal {
+  private candidates: BackfillCandidate[];
+  private onDecide: (confirmed: boolean) => void;
+  private decided = false;
+
+  constructor(app: App, candidates: BackfillCandidate[], onDecide: (confirmed: boolean) => void) {
+    super(app);
+    this.candidates = candidates;
+    this.onDecide = onDecide;
+  }
+
+  /**
+   * Whether generating these notes needs confirmation first
+   */
+  static needsConfirmation(candidates: BackfillCandidate[]): boolean {
+    return candidates.some(candidate => candidate.action !== 'skip' && (candidate.action === 'overwrite' || !!candidate.inProgress));
+  }
+
+  /**
+   * Open the modal and resolve with whether the user confirmed
+   */
+  static ask(app: App, candidates: BackfillCandidate[]): Promise<boolean> {
+    return new Promise(resolve => {
+      new ConfirmGenerateModal(app, candidates, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const total = this.candidates.filter(candidate => candidate.action !== 'skip').length;
+
+    contentEl.createEl('h3', { text: total === 1 ? 'Generate journal?' : `Generate ${total} journals?` });
+
+    const listEl = contentEl.createEl('ul', { cls: 'journal-backfill-list' });
+    for (const candidate of this.candidates) {
+      listEl.createEl('li', { text: `${candidate.date || candidate.file} — ${this.describe(candidate)}` });
+    }
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Generate')
+        .setCta()
+        .onClick(() => this.decide(true)))
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.decide(false)));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+
+    if (!this.decided) {
+      this.decided = true;
+      this.onDecide(false);
+    }
+  }
+
+  private describe(candidate: BackfillCandidate): string {
+    if (candidate.action === 'skip') {
+      return `⏭️ skip (${candidate.reason})`;
+    }
+
+    const label = candidate.action === 'overwrite' ? '♻️ replace the existing journal' : '🆕 new journal';
+    return candidate.inProgress ? `${label} — the day is not over yet, later entries will be missing` : label;
+  }
+
+  private decide(confirmed: boolean): void {
+    this.decided = true;
+    this.onDecide(confirmed);
+    this.close();
+  }
+}
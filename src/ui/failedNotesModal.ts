@@ -0,0 +1,96 @@
+import { App, Modal, Setting } from 'obsidian';
+import JournalPlugin from '../main';
+import { ProcessingRecord } from '../models/types';
+
+/**
+ * Lists daily notes whose journal failed to generate, with their last error,
+ * and lets the user retry or dismiss each one
+ */
+export class FailedNotesModal extends Modal {
+  private plugin: JournalPlugin;
+  private busy = false;
+
+  constructor(app: App, plugin: JournalPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(statusMessage?: string): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h3', { text: 'Failed daily notes' });
+
+    if (statusMessage) {
+      contentEl.createEl('p', { text: statusMessage, cls: 'journal-modal-status' });
+    }
+
+    const records = [
+      ...this.plugin.ledger.getByStatus('failed'),
+      ...this.plugin.ledger.getByStatus('dismissed')
+    ];
+
+    if (records.length === 0) {
+      contentEl.createEl('p', { text: 'No failed notes 🎉' });
+      return;
+    }
+
+    for (const record of records) {
+      this.renderRecord(record);
+    }
+  }
+
+  private renderRecord(record: ProcessingRecord): void {
+    const setting = new Setting(this.contentEl)
+      .setName(`${record.date} — ${this.describeState(record)}`)
+      .setDesc(record.lastError || 'Unknown error');
+
+    setting.addButton(button => button
+      .setButtonText('Retry')
+      .setDisabled(this.busy)
+      .onClick(async () => {
+        this.busy = true;
+        this.render(`⏳ Retrying ${record.date}...`);
+
+        const result = await this.plugin.scheduler.retryFailedNote(record.date);
+
+        this.busy = false;
+        this.render(result.success && result.processed > 0
+          ? `✅ Generated journal for ${record.date}`
+          : `❌ ${result.errors[0] || 'Retry failed'}`);
+      }));
+
+    if (record.status === 'failed') {
+      setting.addButton(button => button
+        .setButtonText('Dismiss')
+        .setDisabled(this.busy)
+        .onClick(async () => {
+          await this.plugin.ledger.dismiss(record.date);
+          this.render(`Dismissed ${record.date} - it will not be retried automatically`);
+        }));
+    }
+  }
+
+  private describeState(record: ProcessingRecord): string {
+    const maxAttempts = this.plugin.settings.maxRetryAttempts;
+
+    if (record.status === 'dismissed') {
+      return `dismissed after ${record.attempts} attempts`;
+    }
+
+    if (this.plugin.ledger.hasGivenUp(record.date, maxAttempts)) {
+      return `gave up after ${record.attempts} attempts`;
+    }
+
+    const nextRetry = record.nextRetryAt ? new Date(record.nextRetryAt).toLocaleString() : 'next run';
+    return `${record.attempts}/${maxAttempts} attempts, next retry: ${nextRetry}`;
+  }
+}
@@ -0,0 +1,204 @@
+import { App, Component, MarkdownRenderer, Modal, Setting } from 'obsidian';
+import JournalPlugin from '../main';
+import { JournalDraft } from '../models/types';
+import { logger } from '../utils/logger';
+
+/**
+ * Shows generated journal drafts one at a time with the rendered journal,
+ * its frontmatter and the daily note entries it came from, and lets the user
+ * accept, edit, regenerate or discard each one
+ */
+export class JournalReviewModal extends Modal {
+  private static readonly FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---\n?/;
+
+  private plugin: JournalPlugin;
+  private index = 0;
+  private editing = false;
+  private busy = false;
+  // Edited journal text per draft date, kept while moving between drafts
+  private edits: Record<string, string> = {};
+  private previewComponent: Component | null = null;
+
+  constructor(app: App, plugin: JournalPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.unloadPreview();
+    this.contentEl.empty();
+  }
+
+  private render(statusMessage?: string): void {
+    const { contentEl } = this;
+    this.unloadPreview();
+    contentEl.empty();
+
+    const drafts = this.plugin.scheduler.getDrafts();
+
+    if (drafts.length === 0) {
+      contentEl.createEl('h3', { text: 'Journal drafts' });
+      if (statusMessage) {
+        contentEl.createEl('p', { text: statusMessage, cls: 'journal-modal-status' });
+      }
+      contentEl.createEl('p', { text: 'No drafts left to review 🎉' });
+      new Setting(contentEl).addButton(button => button
+        .setButtonText('Close')
+        .onClick(() => this.close()));
+      return;
+    }
+
+    this.index = Math.min(this.index, drafts.length - 1);
+    const draft = drafts[this.index];
+    const content = this.getContent(draft);
+
+    contentEl.createEl('h3', { text: `Journal draft for ${draft.date}` });
+    contentEl.createEl('p', {
+      text: `${this.index + 1} of ${drafts.length} · ${draft.provider} (${draft.model}) · from ${draft.dailyNote.file}`,
+      cls: 'journal-review-meta'
+    });
+
+    if (statusMessage) {
+      contentEl.createEl('p', { text: statusMessage, cls: 'journal-modal-status' });
+    }
+
+    const preview = this.plugin.journalManager.previewJournalContent(draft.dailyNote, content, draft.sentiment);
+    const frontmatter = preview.match(JournalReviewModal.FRONTMATTER_PATTERN);
+    const body = frontmatter ? preview.substring(frontmatter[0].length) : preview;
+
+    if (this.editing) {
+      const textarea = contentEl.createEl('textarea', { cls: 'journal-review-editor' });
+      textarea.value = content;
+      textarea.rows = 16;
+      textarea.addEventListener('input', () => {
+        this.edits[draft.date] = textarea.value;
+      });
+    } else {
+      this.renderPreview(body, draft.dailyNote.file);
+    }
+
+    if (frontmatter) {
+      const details = contentEl.createEl('details', { cls: 'journal-review-section' });
+      details.createEl('summary', { text: 'Frontmatter' });
+      details.createEl('pre', { text: frontmatter[1] });
+    }
+
+    this.renderSourceEntries(draft);
+    this.renderActions(draft, drafts.length);
+  }
+
+  private renderPreview(markdown: string, sourcePath: string): void {
+    const previewEl = this.contentEl.createDiv({ cls: 'journal-review-preview markdown-rendered' });
+
+    this.previewComponent = new Component();
+    this.previewComponent.load();
+
+    MarkdownRenderer.renderMarkdown(markdown, previewEl, sourcePath, this.previewComponent).catch(error => {
+      logger.error('Failed to render journal draft:', error);
+      previewEl.setText(markdown);
+    });
+  }
+
+  private renderSourceEntries(draft: JournalDraft): void {
+    const entries = draft.dailyNote.entries || [];
+    const details = this.contentEl.createEl('details', { cls: 'journal-review-section' });
+    details.createEl('summary', { text: `Source entries (${entries.length})` });
+
+    const list = details.createEl('ul', { cls: 'journal-review-entries' });
+    for (const entry of entries) {
+      list.createEl('li', { text: entry.time ? `[${entry.time}] ${entry.content}` : entry.content });
+    }
+  }
+
+  private renderActions(draft: JournalDraft, total: number): void {
+    if (total > 1) {
+      new Setting(this.contentEl)
+        .addButton(button => button
+          .setButtonText('← Previous')
+          .setDisabled(this.busy || this.index === 0)
+          .onClick(() => this.move(-1)))
+        .addButton(button => button
+          .setButtonText('Next →')
+          .setDisabled(this.busy || this.index >= total - 1)
+          .onClick(() => this.move(1)));
+    }
+
+    new Setting(this.contentEl)
+      .addButton(button => button
+        .setButtonText('Accept')
+        .setCta()
+        .setDisabled(this.busy)
+        .onClick(() => this.runAction(`⏳ Writing journal for ${draft.date}...`, async () => {
+          await this.plugin.scheduler.acceptDraft(draft.date, this.edits[draft.date]);
+          this.forget(draft.date);
+          return `✅ Wrote journal for ${draft.date}`;
+        })))
+      .addButton(button => button
+        .setButtonText(this.editing ? 'Preview' : 'Edit')
+        .setDisabled(this.busy)
+        .onClick(() => {
+          this.editing = !this.editing;
+          this.render();
+        }))
+      .addButton(button => button
+        .setButtonText('Regenerate')
+        .setDisabled(this.busy)
+        .onClick(() => this.runAction(`⏳ Regenerating journal for ${draft.date}...`, async () => {
+          await this.plugin.scheduler.regenerateDraft(draft.date);
+          this.forget(draft.date);
+          return `🔄 Regenerated journal for ${draft.date}`;
+        })))
+      .addButton(button => button
+        .setButtonText('Discard')
+        .setWarning()
+        .setDisabled(this.busy)
+        .onClick(() => this.runAction(`⏳ Discarding draft for ${draft.date}...`, async () => {
+          await this.plugin.scheduler.discardDraft(draft.date);
+          this.forget(draft.date);
+          return `🗑️ Discarded draft for ${draft.date} - retry it from the failed notes to generate it again`;
+        })));
+  }
+
+  /**
+   * Run a draft action with the buttons disabled, then show its outcome
+   */
+  private async runAction(progressMessage: string, action: () => Promise<string>): Promise<void> {
+    this.busy = true;
+    this.render(progressMessage);
+
+    let message: string;
+    try {
+      message = await action();
+    } catch (error) {
+      logger.error('Journal draft action failed:', error);
+      message = `❌ ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+
+    this.busy = false;
+    this.render(message);
+  }
+
+  private move(offset: number): void {
+    this.index += offset;
+    this.editing = false;
+    this.render();
+  }
+
+  private getContent(draft: JournalDraft): string {
+    return this.edits[draft.date] ?? draft.content;
+  }
+
+  private forget(date: string): void {
+    delete this.edits[date];
+    this.editing = false;
+  }
+
+  private unloadPreview(): void {
+    this.previewComponent?.unload();
+    this.previewComponent = null;
+  }
+}
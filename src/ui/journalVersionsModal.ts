@@ -0,0 +1,164 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import JournalPlugin from '../main';
+import { JournalVersion } from '../models/types';
+import { DiffUtils } from '../utils/diffUtils';
+import { FileUtils } from '../utils/fileUtils';
+import { logger } from '../utils/logger';
+
+// Dropdown value of the journal as it is in the vault now
+const CURRENT = 'current';
+
+/**
+ * Lists the saved versions of a journal, shows the differences between any
+ * two of them (or the current journal) and restores a chosen version
+ */
+export class JournalVersionsModal extends Modal {
+  private plugin: JournalPlugin;
+  private file: TFile;
+  private date: string;
+  private currentContent = '';
+  private versions: JournalVersion[] = [];
+  private from = CURRENT;
+  private to = CURRENT;
+  private busy = false;
+
+  constructor(app: App, plugin: JournalPlugin, file: TFile, date: string) {
+    super(app);
+    this.plugin = plugin;
+    this.file = file;
+    this.date = date;
+  }
+
+  async onOpen(): Promise<void> {
+    await this.loadVersions();
+    // Start with what changed since the newest saved version
+    this.from = this.versions.length > 0 ? String(this.versions[0].version) : CURRENT;
+    this.to = CURRENT;
+
+    await this.loadCurrentContent();
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async loadVersions(): Promise<void> {
+    this.versions = await this.plugin.journalManager.getJournalVersions(this.date);
+  }
+
+  private async loadCurrentContent(): Promise<void> {
+    try {
+      this.currentContent = await FileUtils.readFile(this.app, this.file);
+    } catch (error) {
+      logger.error(`Failed to read ${this.file.path}:`, error);
+      this.currentContent = '';
+    }
+  }
+
+  private render(statusMessage?: string): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h3', { text: `Journal versions for ${this.date}` });
+
+    if (statusMessage) {
+      contentEl.createEl('p', { text: statusMessage, cls: 'journal-modal-status' });
+    }
+
+    const { versions } = this;
+
+    if (versions.length === 0) {
+      contentEl.createEl('p', { text: 'No earlier versions saved yet. A version is saved each time this journal is regenerated.' });
+      return;
+    }
+
+    new Setting(contentEl)
+      .setName('Compare')
+      .addDropdown(dropdown => {
+        this.addVersionOptions(dropdown.selectEl, versions);
+        dropdown
+          .setValue(this.from)
+          .onChange(value => {
+            this.from = value;
+            this.render();
+          });
+      })
+      .addDropdown(dropdown => {
+        this.addVersionOptions(dropdown.selectEl, versions);
+        dropdown
+          .setValue(this.to)
+          .onChange(value => {
+            this.to = value;
+            this.render();
+          });
+      });
+
+    this.renderDiff(this.getContent(this.from, versions), this.getContent(this.to, versions));
+
+    contentEl.createEl('h4', { text: 'Saved versions' });
+
+    for (const version of versions) {
+      new Setting(contentEl)
+        .setName(`Version ${version.version}`)
+        .setDesc(`${new Date(version.savedAt).toLocaleString()} · ${this.describeReason(version)}`)
+        .addButton(button => button
+          .setButtonText('Restore')
+          .setDisabled(this.busy)
+          .onClick(() => this.restore(version)));
+    }
+  }
+
+  private addVersionOptions(selectEl: HTMLSelectElement, versions: JournalVersion[]): void {
+    selectEl.createEl('option', { value: CURRENT, text: 'Current journal' });
+    for (const version of versions) {
+      selectEl.createEl('option', { value: String(version.version), text: `Version ${version.version}` });
+    }
+  }
+
+  private renderDiff(from: string, to: string): void {
+    const lines = DiffUtils.diffLines(from, to);
+    const diffEl = this.contentEl.createDiv({ cls: 'journal-diff' });
+
+    if (!lines.some(line => line.type !== 'same')) {
+      diffEl.createEl('p', { text: 'No differences.' });
+      return;
+    }
+
+    for (const line of lines) {
+      const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+      diffEl.createDiv({ text: `${prefix}${line.text}`, cls: `journal-diff-line journal-diff-${line.type}` });
+    }
+  }
+
+  private async restore(version: JournalVersion): Promise<void> {
+    this.busy = true;
+    this.render(`⏳ Restoring version ${version.version}...`);
+
+    let message: string;
+    try {
+      await this.plugin.journalManager.restoreJournalVersion(this.date, version.version, this.file);
+      await this.loadVersions();
+      await this.loadCurrentContent();
+      message = `✅ Restored version ${version.version} - the replaced journal was saved as a new version`;
+    } catch (error) {
+      logger.error('Failed to restore journal version:', error);
+      message = `❌ ${error.message}`;
+    }
+
+    this.busy = false;
+    this.render(message);
+  }
+
+  private getContent(value: string, versions: JournalVersion[]): string {
+    if (value === CURRENT) {
+      return this.currentContent;
+    }
+
+    return versions.find(version => String(version.version) === value)?.content || '';
+  }
+
+  private describeReason(version: JournalVersion): string {
+    return version.reason === 'restored' ? 'saved before restoring an earlier version' : 'saved before regenerating';
+  }
+}
@@ -0,0 +1,45 @@
+import { ProcessingProgress } from '../services/scheduler';
+
+/**
+ * Persistent notice showing the progress of a processing run, with a cancel button
+ */
+export class ProcessingProgressNotice {
+  private noticeEl: HTMLElement;
+  private textEl: HTMLElement;
+  private cancelButton: HTMLButtonElement;
+
+  constructor(onCancel: () => void) {
+    this.noticeEl = document.createElement('div');
+    this.noticeEl.className = 'notice custom-notice journal-progress-notice';
+
+    this.textEl = this.noticeEl.createEl('div', { text: '⏳ Looking for daily notes...' });
+
+    this.cancelButton = this.noticeEl.createEl('button', { text: 'Cancel' });
+    this.cancelButton.addEventListener('click', () => {
+      this.cancelButton.disabled = true;
+      this.textEl.setText('⏹️ Cancelling after the current request...');
+      onCancel();
+    });
+
+    document.body.appendChild(this.noticeEl);
+  }
+
+  /**
+   * Show the latest progress of the run
+   */
+  update(progress: ProcessingProgress): void {
+    if (this.cancelButton.disabled) {
+      return;
+    }
+
+    let text = `⏳ Processing ${Math.min(progress.finished + 1, progress.total)} of ${progress.total}`;
+    if (progress.currentDate) {
+      text += ` (${progress.currentDate})`;
+    }
+    this.textEl.setText(text);
+  }
+
+  hide(): void {
+    this.noticeEl.remove();
+  }
+}
@@ -0,0 +1,62 @@
+import { App, Modal, Setting } from 'obsidian';
+import JournalPlugin from '../main';
+
+/**
+ * Panel with the processing status, opened from the status bar
+ */
+export class ProcessingStatusModal extends Modal {
+  private plugin: JournalPlugin;
+
+  constructor(app: App, plugin: JournalPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('pre', {
+      text: this.plugin.getProcessingStatusMessage(),
+      cls: 'status-display'
+    });
+
+    const setting = new Setting(contentEl);
+
+    if (this.plugin.scheduler.getStatus().isProcessing) {
+      setting.addButton(button => button
+        .setButtonText('Cancel processing')
+        .onClick(() => {
+          this.plugin.scheduler.cancelProcessing();
+          this.close();
+        }));
+    }
+
+    if (this.plugin.scheduler.getDrafts().length > 0) {
+      setting.addButton(button => button
+        .setButtonText('Review drafts')
+        .setCta()
+        .onClick(() => {
+          this.close();
+          this.plugin.openDraftReview();
+        }));
+    }
+
+    if (this.plugin.ledger.getByStatus('failed').length > 0) {
+      setting.addButton(button => button
+        .setButtonText('Show failed notes')
+        .onClick(() => {
+          this.close();
+          this.plugin.openFailedNotes();
+        }));
+    }
+
+    setting.addButton(button => button
+      .setButtonText('Close')
+      .onClick(() => this.close()));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,65 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DailyNote, SourceChangeDecision } from '../models/types';
+
+/**
+ * Asks whether the journal for a daily note that changed after generation
+ * should be regenerated, kept as is, or decided on later
+ */
+export class SourceChangedModal extends Modal {
+  private dailyNote: DailyNote;
+  private onDecide: (decision: SourceChangeDecision) => void;
+  private decided = false;
+
+  constructor(app: App, dailyNote: DailyNote, onDecide: (decision: SourceChangeDecision) => void) {
+    super(app);
+    this.dailyNote = dailyNote;
+    this.onDecide = onDecide;
+  }
+
+  /**
+   * Open the modal and resolve with the user's decision
+   */
+  static ask(app: App, dailyNote: DailyNote): Promise<SourceChangeDecision> {
+    return new Promise(resolve => {
+      new SourceChangedModal(app, dailyNote, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h3', { text: 'Daily note changed' });
+    contentEl.createEl('p', {
+      text: `${this.dailyNote.file} was modified after its journal for ${this.dailyNote.date} was generated.`
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Regenerate journal')
+        .setCta()
+        .onClick(() => this.decide('regenerate')))
+      .addButton(button => button
+        .setButtonText('Keep current journal')
+        .onClick(() => this.decide('ignore')))
+      .addButton(button => button
+        .setButtonText('Ask me later')
+        .onClick(() => this.decide('later')));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+
+    // Closing without choosing defers the decision to the next run
+    if (!this.decided) {
+      this.decided = true;
+      this.onDecide('later');
+    }
+  }
+
+  private decide(decision: SourceChangeDecision): void {
+    this.decided = true;
+    this.onDecide(decision);
+    this.close();
+  }
+}
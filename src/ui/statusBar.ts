@@ -0,0 +1,60 @@
+import JournalPlugin from '../main';
+import { ProcessingStatusModal } from './processingStatusModal';
+
+/**
+ * Status bar item summarizing what the scheduler is doing
+ */
+export class JournalStatusBar {
+  private plugin: JournalPlugin;
+  private statusBarEl: HTMLElement;
+
+  constructor(plugin: JournalPlugin, statusBarEl: HTMLElement) {
+    this.plugin = plugin;
+    this.statusBarEl = statusBarEl;
+
+    this.statusBarEl.addClass('mod-clickable', 'journal-status-bar');
+    this.statusBarEl.addEventListener('click', () => {
+      new ProcessingStatusModal(this.plugin.app, this.plugin).open();
+    });
+
+    this.update();
+  }
+
+  /**
+   * Re-render the status bar text from the current scheduler status
+   */
+  update(): void {
+    const status = this.plugin.scheduler.getStatus();
+    const parts: string[] = [];
+
+    if (status.isProcessing && status.progress) {
+      const current = Math.min(status.progress.finished + 1, status.progress.total);
+      parts.push(`📓 Processing ${current} of ${status.progress.total}${status.progress.currentDate ? ` (${status.progress.currentDate})` : ''}`);
+    } else if (status.isProcessing) {
+      parts.push('📓 Looking for notes...');
+    } else if (status.lastError) {
+      parts.push('📓 ⚠️ Last run had errors');
+    } else {
+      parts.push('📓 Idle');
+    }
+
+    if (status.pendingNotes > 0) {
+      parts.push(`${status.pendingNotes} pending`);
+    }
+
+    if (status.queuedNotes.length > 0) {
+      parts.push(`${status.queuedNotes.length} queued`);
+    }
+
+    if (status.draftCount > 0) {
+      parts.push(`${status.draftCount} to review`);
+    }
+
+    if (!status.isProcessing && status.nextProcessingTime) {
+      parts.push(`next ${status.nextProcessingTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+    }
+
+    this.statusBarEl.setText(parts.join(' · '));
+    this.statusBarEl.setAttribute('aria-label', status.lastError || 'Daily notes to journal: click for details');
+  }
+}
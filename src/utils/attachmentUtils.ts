@@ -0,0 +1,90 @@
+import { DailyNoteEntry, JournalAttachment } from '../models/types';
+
+export class AttachmentUtils {
+  private static readonly IMAGE_PATTERN = /\.(png|jpe?g|gif|bmp|svg|webp|avif|heic)$/i;
+  private static readonly AUDIO_PATTERN = /\.(m4a|webm|mp3|wav|ogg|oga|opus|flac|aac|mpga|3gp)$/i;
+
+  /**
+   * Check whether an attachment path points to an image
+   */
+  static isImage(path: string): boolean {
+    return this.IMAGE_PATTERN.test(path);
+  }
+
+  /**
+   * Check whether an attachment path points to an audio recording
+   */
+  static isAudio(path: string): boolean {
+    return this.AUDIO_PATTERN.test(path);
+  }
+
+  /**
+   * Attachments of a note's entries in the order they appear, at most `max`.
+   * Each keeps the entry text and its position in the day for inline placement.
+   */
+  static collect(entries: DailyNoteEntry[], max: number): JournalAttachment[] {
+    const attachments: JournalAttachment[] = [];
+    const lastIndex = Math.max(entries.length - 1, 1);
+
+    entries.forEach((entry, index) => {
+      for (const path of entry.attachments || []) {
+        if (attachments.length < max && !attachments.some(attachment => attachment.path === path)) {
+          attachments.push({ path, context: entry.content, position: index / lastIndex });
+        }
+      }
+    });
+
+    return attachments;
+  }
+
+  /**
+   * Gallery section embedding every attachment
+   */
+  static renderGallery(attachments: JournalAttachment[]): string {
+    return `## Gallery\n\n${attachments.map(attachment => `![[${attachment.path}]]`).join('\n')}`;
+  }
+
+  /**
+   * Embed each attachment after the paragraph that shares the most words with
+   * its entry, or at the matching point of the day when no paragraph does
+   */
+  static placeInline(content: string, attachments: JournalAttachment[]): string {
+    const paragraphs = content.split(/\n{2,}/);
+    const paragraphWords = paragraphs.map(paragraph => this.getWords(paragraph));
+    const embedsByParagraph: string[][] = paragraphs.map(() => []);
+
+    for (const attachment of attachments) {
+      const contextWords = this.getWords(attachment.context);
+      let bestIndex = -1;
+      let bestOverlap = 0;
+
+      paragraphWords.forEach((words, index) => {
+        const overlap = contextWords.filter(word => words.indexOf(word) !== -1).length;
+        if (overlap > bestOverlap) {
+          bestIndex = index;
+          bestOverlap = overlap;
+        }
+      });
+
+      if (bestIndex === -1) {
+        bestIndex = Math.min(paragraphs.length - 1, Math.floor(attachment.position * paragraphs.length));
+      }
+
+      embedsByParagraph[bestIndex].push(`![[${attachment.path}]]`);
+    }
+
+    return paragraphs
+      .map((paragraph, index) => embedsByParagraph[index].length > 0
+        ? `${paragraph}\n\n${embedsByParagraph[index].join('\n')}`
+        : paragraph)
+      .join('\n\n');
+  }
+
+  /**
+   * Distinct lowercase words of four or more letters, ignoring short filler words
+   */
+  private static getWords(text: string): string[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) || [];
+    return words.filter((word, index) => words.indexOf(word) === index);
+  }
+}
@@ -0,0 +1,85 @@
+import { TimeParser } from './timeParser';
+
+/**
+ * A top-level line of a note with the nested lines that belong to it
+ */
+export interface MarkdownBlock {
+  line: string; // first line, trimmed, with wrapped continuation lines joined
+  children: MarkdownBlockLine[];
+}
+
+export interface MarkdownBlockLine {
+  text: string; // trimmed, including its list marker
+  depth: number; // 1 for direct children of the block's line
+}
+
+export class BlockParser {
+  private static readonly LIST_ITEM_PATTERN = /^(?:[-*+]|\d+[.)])(?:\s|$)/;
+  private static readonly TAB_WIDTH = 4;
+
+  /**
+   * Group note lines into blocks: each top-level line keeps its indented child
+   * bullets and the lines it wraps onto. A line that is not indented starts a
+   * new block, except text continuing a list item on the next line
+   * (lazy continuation) unless it starts with a time of day.
+   */
+  static parseBlocks(lines: string[]): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let current: MarkdownBlock | null = null;
+    let baseIndent = 0;
+    let currentIsListItem = false;
+    let previousBlank = true;
+    // Indents of the open list items, the block's own line first
+    let indentStack: number[] = [];
+
+    for (const rawLine of lines) {
+      const text = rawLine.trim();
+
+      if (!text) {
+        previousBlank = true;
+        continue;
+      }
+
+      const indent = this.getIndent(rawLine);
+      const isListItem = this.LIST_ITEM_PATTERN.test(text);
+      const nested = current !== null && indent > baseIndent;
+
+      if (nested && isListItem) {
+        while (indentStack.length > 1 && indentStack[indentStack.length - 1] >= indent) {
+          indentStack.pop();
+        }
+        current!.children.push({ text, depth: indentStack.length });
+        indentStack.push(indent);
+      } else if (nested || (current !== null && !isListItem && currentIsListItem && !previousBlank && !TimeParser.extractLeadingTime(text))) {
+        this.appendContinuation(current!, text);
+      } else {
+        current = { line: text, children: [] };
+        blocks.push(current);
+        baseIndent = indent;
+        currentIsListItem = isListItem;
+        indentStack = [indent];
+      }
+
+      previousBlank = false;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Join a wrapped line onto the last line of the block
+   */
+  private static appendContinuation(block: MarkdownBlock, text: string): void {
+    const lastChild = block.children[block.children.length - 1];
+    if (lastChild) {
+      lastChild.text = `${lastChild.text} ${text}`;
+    } else {
+      block.line = `${block.line} ${text}`;
+    }
+  }
+
+  private static getIndent(line: string): number {
+    const whitespace = line.match(/^[ \t]*/)?.[0] || '';
+    return whitespace.split('').reduce((width, char) => width + (char === '\t' ? this.TAB_WIDTH : 1), 0);
+  }
+}
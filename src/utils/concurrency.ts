@@ -0,0 +1,52 @@
+/**
+ * Runs async tasks one at a time in the order they were queued
+ */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Queue a task and resolve with its result once every earlier task has settled
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task, task);
+    // Keep the chain alive when a task fails; the caller still sees the rejection
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export class Concurrency {
+
+  /**
+   * Run a worker over all items with at most `limit` workers in flight.
+   * Items are started in order. A failing item does not stop the
+   * others; the first error is rethrown once every item has run.
+   */
+  static async runPool<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+    const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+    let nextIndex = 0;
+    let firstError: unknown = null;
+
+    const runWorker = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        try {
+          await worker(items[index], index);
+        } catch (error) {
+          firstError = firstError || error;
+        }
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < workerCount; i++) {
+      workers.push(runWorker());
+    }
+
+    await Promise.all(workers);
+
+    if (firstError) {
+      throw firstError;
+    }
+  }
+}
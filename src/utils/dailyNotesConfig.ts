@@ -0,0 +1,136 @@
+import { App, normalizePath } from 'obsidian';
+import { DateUtils } from './dateUtils';
+import { FileUtils } from './fileUtils';
+
+/**
+ * Daily note location and format configured in another plugin
+ */
+export interface DetectedDailyNotesConfig {
+  source: 'Daily Notes' | 'Periodic Notes';
+  folder: string;
+  format: string;
+}
+
+/**
+ * How well a date format matches the notes in a folder
+ */
+export interface DateFormatCheck {
+  total: number; // markdown files in the folder
+  parsed: number; // files whose path parses with the format
+  suggestedFormat: string | null; // format most file names use, when it differs from the checked one
+}
+
+// Format the core Daily Notes plugin uses when none is set
+const DAILY_NOTES_DEFAULT_FORMAT = 'YYYY-MM-DD';
+
+export class DailyNotesConfig {
+
+  /**
+   * Read the daily note settings of the Periodic Notes and core Daily Notes
+   * plugins, most specific first. Disabled plugins are ignored.
+   */
+  static detect(app: App): DetectedDailyNotesConfig[] {
+    const configs: DetectedDailyNotesConfig[] = [];
+
+    const periodicNotes = this.readPeriodicNotes(app);
+    if (periodicNotes) {
+      configs.push(periodicNotes);
+    }
+
+    const dailyNotes = this.readDailyNotes(app);
+    if (dailyNotes) {
+      configs.push(dailyNotes);
+    }
+
+    return configs;
+  }
+
+  /**
+   * Count how many notes in a folder parse with a date format, and suggest
+   * another format when most file names look different
+   */
+  static checkFormat(app: App, folder: string, format: string): DateFormatCheck {
+    const files = FileUtils.getFilesInFolder(app, folder, 'md');
+    // Strict, so names that merely contain a year (Meeting notes 2024) do not count
+    const parsed = files.filter(file => DateUtils.parseDateFromFilename(file.path, format, true)).length;
+
+    // Most common format among the file names
+    const formatCounts = new Map<string, number>();
+    for (const file of files) {
+      const inferred = DateUtils.inferDateFormat(file.name, true);
+      if (inferred) {
+        formatCounts.set(inferred, (formatCounts.get(inferred) || 0) + 1);
+      }
+    }
+
+    let commonFormat: string | null = null;
+    let commonCount = 0;
+    formatCounts.forEach((count, inferred) => {
+      if (count > commonCount) {
+        commonFormat = inferred;
+        commonCount = count;
+      }
+    });
+
+    // Formats may include folders (YYYY/MM/YYYY-MM-DD); file names only show the last part
+    const nameFormat = format.split('/').pop();
+    const suggestedFormat = commonFormat && commonFormat !== nameFormat && commonCount > files.length / 2
+      ? commonFormat
+      : null;
+
+    return { total: files.length, parsed, suggestedFormat };
+  }
+
+  private static readDailyNotes(app: App): DetectedDailyNotesConfig | null {
+    try {
+      const plugin = (app as any).internalPlugins?.getPluginById?.('daily-notes');
+      if (!plugin?.enabled) {
+        return null;
+      }
+
+      const options = plugin.instance?.options || {};
+      return {
+        source: 'Daily Notes',
+        folder: this.normalizeFolder(options.folder),
+        format: (options.format || '').trim() || DAILY_NOTES_DEFAULT_FORMAT
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static readPeriodicNotes(app: App): DetectedDailyNotesConfig | null {
+    try {
+      const settings = (app as any).plugins?.getPlugin?.('periodic-notes')?.settings;
+      if (!settings) {
+        return null;
+      }
+
+      // 0.x keeps a single "daily" section; 1.x keeps one per calendar set
+      const calendarSet = Array.isArray(settings.calendarSets)
+        ? settings.calendarSets.find((set: any) => set.id === settings.activeCalendarSet) || settings.calendarSets[0]
+        : null;
+      const daily = calendarSet ? calendarSet.day : settings.daily;
+
+      if (!daily?.enabled) {
+        return null;
+      }
+
+      return {
+        source: 'Periodic Notes',
+        folder: this.normalizeFolder(daily.folder),
+        format: (daily.format || '').trim() || DAILY_NOTES_DEFAULT_FORMAT
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Folder paths without surrounding slashes; the vault root becomes "/"
+   */
+  private static normalizeFolder(folder: unknown): string {
+    const trimmed = typeof folder === 'string' ? folder.trim().replace(/^\/+|\/+$/g, '') : '';
+    return trimmed ? normalizePath(trimmed) : '/';
+  }
+}
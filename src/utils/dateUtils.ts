@@ -1,16 +1,26 @@
 import { moment } from 'obsidian';
+import { TimeParser } from './timeParser';
+import { TimeZoneUtils } from './timeZoneUtils';
 
 export class DateUtils {
   /**
-   * Parse date from filename using the specified format
+   * Parse date from filename using the specified format.
+   * Formats may include folder segments (e.g. YYYY/MM/DD); in that case the
+   * same number of trailing path segments is matched against the format.
+   * Strict parsing requires the whole name to match the format.
    */
-  static parseDateFromFilename(filename: string, format: string): Date | null {
+  static parseDateFromFilename(filename: string, format: string, strict: boolean = false): Date | null {
     try {
       // Remove file extension
-      const nameWithoutExtension = filename.replace(/\.[^/.]+$/, '');
+      const pathWithoutExtension = filename.replace(/\.[^/.]+$/, '');
+      
+      // Match only as many trailing path segments as the format has
+      const formatSegments = format.split('/').filter(segment => segment.length > 0).length;
+      const pathSegments = pathWithoutExtension.split('/').filter(segment => segment.length > 0);
+      const nameWithoutExtension = pathSegments.slice(-Math.max(formatSegments, 1)).join('/');
       
       // Use moment to parse the date
-      const parsedDate = moment(nameWithoutExtension, format);
+      const parsedDate = moment(nameWithoutExtension, format, strict);
       
       if (parsedDate.isValid()) {
         return parsedDate.toDate();
@@ -31,20 +41,26 @@ export class DateUtils {
   }
 
   /**
-   * Check if a date is before today
+   * Check if a date is before today.
+   * "Today" is taken in the given timezone (the device timezone by default).
+   * With a day end time (HH:mm) after midnight, the previous day lasts until
+   * that time, so e.g. at 02:00 with "04:00" yesterday still counts as today.
    */
-  static isBeforeToday(date: Date): boolean {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  static isBeforeToday(date: Date, dayEndsAt: string = '00:00', timeZone?: string, now: Date = new Date()): boolean {
+    const zone = TimeZoneUtils.resolveTimeZone(timeZone);
+    let today = TimeZoneUtils.getDateKey(now, zone);
     
-    const compareDate = new Date(date);
-    compareDate.setHours(0, 0, 0, 0);
+    if (TimeParser.isValidTime(dayEndsAt) && TimeZoneUtils.getMinutesOfDay(now, zone) < TimeParser.toMinutes(dayEndsAt)) {
+      today = TimeZoneUtils.addDays(today, -1);
+    }
     
-    return compareDate < today;
+    return TimeZoneUtils.toDateKey(date) < today;
   }
 
   /**
-   * Generate filename from date and format template
+   * Generate filename from date and format template.
+   * Templates may include folder segments (e.g. YYYY/MMMM/Journal-YYYY-MM-DD.md),
+   * which are kept as a relative path.
    */
   static generateFilename(date: Date, template: string): string {
     // Simple and reliable approach: manually replace the common date format tokens
@@ -88,15 +104,19 @@ export class DateUtils {
       // Removed 'A', 'a' tokens as they conflict with literal text like "Journal" and "amazing"
     };
     
-    // Sort by length (longest first) to avoid partial replacements
+    // Sort by length (longest first) to avoid partial replacements, and replace in a
+    // single pass so inserted names like "December" or "March" are not re-tokenized
     const sortedTokens = Object.keys(replacements).sort((a, b) => b.length - a.length);
+    const tokenPattern = new RegExp(sortedTokens.join('|'), 'g');
     
-    for (const token of sortedTokens) {
-      result = result.replace(new RegExp(token, 'g'), replacements[token]);
-    }
+    result = result.replace(tokenPattern, token => replacements[token]);
     
-    // Sanitize the filename to remove invalid characters
-    result = this.sanitizeFilename(result);
+    // Sanitize each path segment to remove invalid characters, keeping folder separators
+    result = result
+      .split('/')
+      .map(segment => this.sanitizeFilename(segment))
+      .filter(segment => segment.length > 0)
+      .join('/');
     
     return result;
   }
@@ -115,9 +135,10 @@ export class DateUtils {
   }
 
   /**
-   * Extract date formats from common patterns
+   * Extract date formats from common patterns. With strict parsing the whole
+   * name must match, so e.g. 02.09.2025 is not taken for YYYY-MM-DD.
    */
-  static inferDateFormat(filename: string): string | null {
+  static inferDateFormat(filename: string, strict: boolean = false): string | null {
     const commonFormats = [
       'YYYY-MM-DD',
       'YYYY_MM_DD',
@@ -131,7 +152,7 @@ export class DateUtils {
     const nameWithoutExtension = filename.replace(/\.[^/.]+$/, '');
     
     for (const format of commonFormats) {
-      const parsed = moment(nameWithoutExtension, format);
+      const parsed = moment(nameWithoutExtension, format, strict);
       if (parsed.isValid()) {
         return format;
       }
@@ -0,0 +1,60 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export class DiffUtils {
+  /**
+   * Line-by-line diff from one text to another, based on their longest common
+   * subsequence of lines. Removed lines come before the lines added in their place.
+   */
+  static diffLines(from: string, to: string): DiffLine[] {
+    const a = from.split('\n');
+    const b = to.split('\n');
+
+    // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+    const common: number[][] = [];
+    for (let i = a.length; i >= 0; i--) {
+      common[i] = [];
+      for (let j = b.length; j >= 0; j--) {
+        if (i === a.length || j === b.length) {
+          common[i][j] = 0;
+        } else if (a[i] === b[j]) {
+          common[i][j] = common[i + 1][j + 1] + 1;
+        } else {
+          common[i][j] = Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+      }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: 'same', text: a[i] });
+        i++;
+        j++;
+      } else if (common[i + 1][j] >= common[i][j + 1]) {
+        lines.push({ type: 'removed', text: a[i] });
+        i++;
+      } else {
+        lines.push({ type: 'added', text: b[j] });
+        j++;
+      }
+    }
+
+    while (i < a.length) {
+      lines.push({ type: 'removed', text: a[i++] });
+    }
+
+    while (j < b.length) {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+
+    return lines;
+  }
+}
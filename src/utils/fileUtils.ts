@@ -12,6 +12,12 @@ export class FileUtils {
     let folder = app.vault.getAbstractFileByPath(normalizedPath);
     
     if (!folder) {
+      // Create missing parent folders first for nested layouts (e.g. Journal/2024/February)
+      const parentPath = this.getParentPath(normalizedPath);
+      if (parentPath) {
+        await this.ensureFolder(app, parentPath);
+      }
+      
       await app.vault.createFolder(normalizedPath);
       folder = app.vault.getAbstractFileByPath(normalizedPath);
     }
@@ -52,6 +58,14 @@ export class FileUtils {
     return files;
   }
 
+  /**
+   * Get the parent folder of a path (empty string for the vault root)
+   */
+  static getParentPath(filePath: string): string {
+    const index = filePath.lastIndexOf('/');
+    return index > 0 ? filePath.substring(0, index) : '';
+  }
+
   /**
    * Check if a file exists
    */
@@ -68,7 +82,7 @@ export class FileUtils {
     const normalizedPath = normalizePath(filePath);
     
     // Ensure parent folder exists
-    const parentPath = normalizedPath.substring(0, normalizedPath.lastIndexOf('/'));
+    const parentPath = this.getParentPath(normalizedPath);
     if (parentPath) {
       await this.ensureFolder(app, parentPath);
     }
@@ -147,7 +161,7 @@ export class FileUtils {
       const value = trimmed.substring(colonIndex + 1).trim();
       
       // Simple value parsing
-      if (value.startsWith('"') && value.endsWith('"')) {
+      if (value.length >= 2 && ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'")))) {
         result[key] = value.slice(1, -1);
       } else if (value === 'true') {
         result[key] = true;
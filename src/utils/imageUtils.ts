@@ -0,0 +1,64 @@
+import { AIImagePart } from '../services/ai/aiService';
+
+export class ImageUtils {
+  // Formats the app can decode for resizing; others (svg, heic) are not sent
+  private static readonly DECODABLE_PATTERN = /\.(png|jpe?g|gif|bmp|webp|avif)$/i;
+  private static readonly JPEG_QUALITY = 0.85;
+
+  /**
+   * Check whether an image can be resized and sent to an AI model
+   */
+  static canPrepare(path: string): boolean {
+    return this.DECODABLE_PATTERN.test(path);
+  }
+
+  /**
+   * Size that keeps the aspect ratio with the longest side at most `maxDimension`.
+   * Smaller images keep their size.
+   */
+  static fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+    const scale = Math.min(1, maxDimension / Math.max(width, height, 1));
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale))
+    };
+  }
+
+  /**
+   * Decode an image, scale it down to `maxDimension` and re-encode it as JPEG.
+   * Re-encoding also drops metadata such as the location the photo was taken at.
+   */
+  static async prepareForUpload(data: ArrayBuffer, maxDimension: number): Promise<AIImagePart> {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(new Blob([data]));
+    } catch (error) {
+      throw new Error(`Failed to decode image: ${error.message}`);
+    }
+
+    try {
+      const size = this.fitWithin(bitmap.width, bitmap.height, maxDimension);
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Failed to resize image: canvas is not available');
+      }
+
+      // JPEG has no transparency; paint transparent areas white instead of black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, size.width, size.height);
+      context.drawImage(bitmap, 0, 0, size.width, size.height);
+
+      const dataUrl = canvas.toDataURL('image/jpeg', this.JPEG_QUALITY);
+      return {
+        mimeType: 'image/jpeg',
+        data: dataUrl.substring(dataUrl.indexOf(',') + 1)
+      };
+    } finally {
+      bitmap.close();
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { DailyNoteEntry, NoteLink } from '../models/types';
+import { AttachmentUtils } from './attachmentUtils';
+
+export class LinkParser {
+  // [[target]], [[target|alias]], [[target#heading]] and their ![[embed]] forms
+  private static readonly WIKILINK_PATTERN = /(!?)\[\[([^\[\]|]*)(?:\|([^\[\]]*))?\]\]/g;
+
+  // Embedded videos and documents; images and audio are recognised by AttachmentUtils
+  private static readonly VIDEO_OR_DOCUMENT_PATTERN = /\.(mp4|mov|mkv|pdf)$/i;
+
+  /**
+   * Replace wikilinks in a line with readable names for the AI and remember
+   * how to link each name again. Note links become their alias or the
+   * resolved note's name; media embeds are moved out of the text into
+   * `attachments` (resolved vault paths where possible).
+   */
+  static replaceLinks(
+    content: string,
+    resolveFile: (linkpath: string) => { basename: string; path: string } | null | undefined
+  ): { text: string; links: NoteLink[]; attachments: string[] } {
+    const links: NoteLink[] = [];
+    const attachments: string[] = [];
+
+    const text = content.replace(this.WIKILINK_PATTERN, (match: string, embed: string, target: string, alias?: string) => {
+      const linkTarget = target.trim();
+      const linkpath = linkTarget.split('#')[0].trim();
+      const label = alias?.trim();
+
+      if (embed && this.isMedia(linkpath)) {
+        attachments.push(resolveFile(linkpath)?.path || linkpath);
+        return '';
+      }
+
+      // Links to a heading of the same note carry no connection to keep
+      if (!linkpath) {
+        return label || linkTarget.replace(/^#+\^?/, '');
+      }
+
+      const name = label
+        || resolveFile(linkpath)?.basename
+        || (linkpath.split('/').pop() as string).replace(/\.md$/i, '');
+
+      if (!links.some(link => link.name === name)) {
+        links.push({
+          name,
+          markup: name === linkTarget ? `[[${name}]]` : `[[${linkTarget}|${name}]]`
+        });
+      }
+
+      return name;
+    });
+
+    return {
+      text: text.replace(/[ \t]{2,}/g, ' ').trim(),
+      links,
+      attachments
+    };
+  }
+
+  /**
+   * Link the first mention of each name in generated text again.
+   * Mentions inside existing links and parts of longer words are left alone.
+   */
+  static restoreLinks(text: string, links: NoteLink[]): string {
+    // Longer names first so "Ana Pérez" wins over "Ana"
+    const sorted = [...links].sort((a, b) => b.name.length - a.name.length);
+    let result = text;
+
+    for (const link of sorted) {
+      const index = this.findMention(result, link.name);
+      if (index !== -1) {
+        result = result.slice(0, index) + link.markup + result.slice(index + link.name.length);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * All links of a note's entries, one per name
+   */
+  static collectLinks(entries: DailyNoteEntry[]): NoteLink[] {
+    const links: NoteLink[] = [];
+
+    for (const entry of entries) {
+      for (const link of entry.links || []) {
+        if (!links.some(existing => existing.name === link.name)) {
+          links.push(link);
+        }
+      }
+    }
+
+    return links;
+  }
+
+  private static findMention(text: string, name: string): number {
+    if (!name) {
+      return -1;
+    }
+
+    const linkedRanges: [number, number][] = [];
+    const linkPattern = /\[\[[^\]]*\]\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = linkPattern.exec(text)) !== null) {
+      linkedRanges.push([match.index, match.index + match[0].length]);
+    }
+
+    let index = text.indexOf(name);
+    while (index !== -1) {
+      const end = index + name.length;
+      const insideLink = linkedRanges.some(([start, stop]) => index < stop && end > start);
+
+      if (!insideLink && !this.isWordCharacter(text[index - 1]) && !this.isWordCharacter(text[end])) {
+        return index;
+      }
+
+      index = text.indexOf(name, index + 1);
+    }
+
+    return -1;
+  }
+
+  // Embedded files that are not notes; they are attachments rather than text
+  private static isMedia(path: string): boolean {
+    return AttachmentUtils.isImage(path) || AttachmentUtils.isAudio(path) || this.VIDEO_OR_DOCUMENT_PATTERN.test(path);
+  }
+
+  private static isWordCharacter(char: string | undefined): boolean {
+    return !!char && /[\p{L}\p{N}_]/u.test(char);
+  }
+}
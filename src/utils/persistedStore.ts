@@ -0,0 +1,33 @@
+import { logger } from './logger';
+
+/**
+ * Records keyed by date that are stored in plugin data through the given
+ * saver, which writes saves from all stores one at a time in order.
+ * A failed save is logged rather than failing the change that caused it.
+ */
+export abstract class PersistedStore<T> {
+  protected records: Record<string, T>;
+  private name: string;
+  private persist: () => Promise<void>;
+
+  constructor(name: string, records?: Record<string, T>, persist?: () => Promise<void>) {
+    this.name = name;
+    this.records = { ...(records || {}) };
+    this.persist = persist || (async () => {});
+  }
+
+  /**
+   * Serializable form for plugin data
+   */
+  toJSON(): Record<string, T> {
+    return { ...this.records };
+  }
+
+  protected async save(): Promise<void> {
+    try {
+      await this.persist();
+    } catch (error) {
+      logger.error(`Failed to save ${this.name}:`, error);
+    }
+  }
+}
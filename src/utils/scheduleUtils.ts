@@ -0,0 +1,88 @@
+import { JournalPluginSettings } from '../models/types';
+import { TimeParser } from './timeParser';
+import { TimeZoneUtils } from './timeZoneUtils';
+
+type ScheduleSettings = Pick<JournalPluginSettings,
+  'scheduleMode' | 'scheduleTimes' | 'scheduleWeekdays' | 'checkFrequency' | 'homeTimeZone'>;
+
+export class ScheduleUtils {
+  static readonly WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  /**
+   * Parse a comma-separated list of times ("23:30, 7:00") into sorted,
+   * de-duplicated HH:mm values. Invalid entries are dropped.
+   */
+  static parseTimeList(value: string): string[] {
+    const times = value
+      .split(',')
+      .map(time => time.trim())
+      .filter(time => TimeParser.isValidTime(time))
+      .map(time => time.padStart(5, '0'));
+
+    return times
+      .filter((time, index) => times.indexOf(time) === index)
+      .sort((a, b) => TimeParser.toMinutes(a) - TimeParser.toMinutes(b));
+  }
+
+  /**
+   * Next run of a time-of-day schedule after `now`, in the home timezone.
+   * Returns null for modes without fixed run times or when no run is configured.
+   */
+  static getNextRun(schedule: ScheduleSettings, now: Date): Date | null {
+    if (schedule.scheduleMode !== 'daily' && schedule.scheduleMode !== 'weekdays') {
+      return null;
+    }
+
+    const times = this.parseTimeList(schedule.scheduleTimes.join(','));
+    const weekdays = schedule.scheduleMode === 'weekdays' ? schedule.scheduleWeekdays : [0, 1, 2, 3, 4, 5, 6];
+    if (times.length === 0 || weekdays.length === 0) {
+      return null;
+    }
+
+    const timeZone = TimeZoneUtils.resolveTimeZone(schedule.homeTimeZone);
+    const today = TimeZoneUtils.getDateKey(now, timeZone);
+
+    // A week and a day covers every weekday, including today's later times
+    for (let offset = 0; offset <= 7; offset++) {
+      const day = TimeZoneUtils.addDays(today, offset);
+      if (!weekdays.includes(TimeZoneUtils.getWeekday(day))) {
+        continue;
+      }
+
+      for (const time of times) {
+        const run = new Date(TimeZoneUtils.toISOString(day, time, timeZone));
+        if (run.getTime() > now.getTime()) {
+          return run;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Human-readable summary of a schedule, e.g. "Mon, Fri at 23:30"
+   */
+  static describe(schedule: ScheduleSettings): string {
+    const times = this.parseTimeList(schedule.scheduleTimes.join(',')).join(', ') || 'no time set';
+
+    switch (schedule.scheduleMode) {
+      case 'daily':
+        return `Daily at ${times}`;
+
+      case 'weekdays': {
+        const days = [...schedule.scheduleWeekdays]
+          .sort((a, b) => a - b)
+          .map(day => this.WEEKDAY_NAMES[day])
+          .join(', ');
+        return `${days || 'No days selected'} at ${times}`;
+      }
+
+      case 'startup':
+        return 'On startup only';
+
+      default:
+        return `As notes change, with a full check every ${schedule.checkFrequency} minutes`;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+export class SectionParser {
+  private static readonly HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+  private static readonly FENCE_PATTERN = /^(```|~~~)/;
+
+  /**
+   * Return the body lines that belong to the selected sections.
+   * A heading scopes every line until the next heading of the same or higher level,
+   * so nested sub-headings inherit the inclusion/exclusion of their parents.
+   * With no include headings, everything not explicitly excluded is kept.
+   * Heading lines themselves are never returned.
+   */
+  static filterLinesBySection(
+    body: string,
+    includeHeadings: string[] = [],
+    excludeHeadings: string[] = []
+  ): string[] {
+    return this.splitBySection(body, includeHeadings, excludeHeadings)
+      .reduce((lines, section) => lines.concat(section), [] as string[]);
+  }
+
+  /**
+   * Like filterLinesBySection, but keeps the lines under each heading as a
+   * separate group, so text under one heading is never joined with the next
+   */
+  static splitBySection(
+    body: string,
+    includeHeadings: string[] = [],
+    excludeHeadings: string[] = []
+  ): string[][] {
+    const include = this.normalizeHeadingList(includeHeadings);
+    const exclude = this.normalizeHeadingList(excludeHeadings);
+
+    const headingStack: { level: number; title: string }[] = [];
+    const sections: string[][] = [];
+    let lines: string[] = [];
+    let inFence = false;
+
+    for (const line of body.split('\n')) {
+      const trimmedLine = line.trim();
+
+      if (this.FENCE_PATTERN.test(trimmedLine)) {
+        inFence = !inFence;
+      }
+
+      const heading = inFence ? null : trimmedLine.match(this.HEADING_PATTERN);
+
+      if (heading) {
+        const level = heading[1].length;
+
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+          headingStack.pop();
+        }
+
+        headingStack.push({ level, title: this.normalizeHeading(heading[2]) });
+
+        if (lines.length > 0) {
+          sections.push(lines);
+          lines = [];
+        }
+        continue;
+      }
+
+      const included = include.length === 0 ||
+        headingStack.some(h => include.includes(h.title));
+      const excluded = headingStack.some(h => exclude.includes(h.title));
+
+      if (included && !excluded) {
+        lines.push(line);
+      }
+    }
+
+    if (lines.length > 0) {
+      sections.push(lines);
+    }
+
+    return sections;
+  }
+
+  /**
+   * Parse a comma-separated heading list as entered in settings
+   */
+  static parseHeadingList(value: string): string[] {
+    return value
+      .split(',')
+      .map(heading => heading.trim())
+      .filter(heading => heading.length > 0);
+  }
+
+  /**
+   * Normalize heading text for comparison ("## Log" and "log" match)
+   */
+  private static normalizeHeading(heading: string): string {
+    return heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  }
+
+  private static normalizeHeadingList(headings: string[]): string[] {
+    return headings
+      .map(heading => this.normalizeHeading(heading))
+      .filter(heading => heading.length > 0);
+  }
+}
@@ -0,0 +1,62 @@
+import { DailyNoteEntry, TaskStatus } from '../models/types';
+
+export class TaskParser {
+  // "- [x] task", "1. [ ] task" and status markers such as [/] or [-] used by task plugins
+  private static readonly LIST_TASK_PATTERN = /^(?:[-*+]|\d+[.)])\s+\[(.)\]\s*/;
+  // "[x] task" without a list marker
+  private static readonly BARE_TASK_PATTERN = /^\[([xX ])\]\s*/;
+
+  /**
+   * Recognize a task line: [x] is done, [/] in progress, [-] cancelled and
+   * any other marker open. Returns null for lines that are not tasks.
+   */
+  static extractTask(line: string): { status: TaskStatus; content: string } | null {
+    const trimmed = line.trim();
+    const match = trimmed.match(this.LIST_TASK_PATTERN) || trimmed.match(this.BARE_TASK_PATTERN);
+
+    if (!match) {
+      return null;
+    }
+
+    return {
+      status: this.getStatus(match[1]),
+      content: trimmed.substring(match[0].length).trim()
+    };
+  }
+
+  /**
+   * Whether a task stays out of the journal. Cancelled tasks never happened;
+   * open and in-progress ones are only kept when open tasks are included.
+   */
+  static isLeftOut(status: TaskStatus, includeOpenTasks: boolean): boolean {
+    return status === 'cancelled' || (status !== 'done' && !includeOpenTasks);
+  }
+
+  /**
+   * Completed tasks of a note's entries, including nested ones, as written in the note
+   */
+  static getCompletedTasks(entries: DailyNoteEntry[]): string[] {
+    return entries.reduce((tasks, entry) => tasks.concat(entry.completedTasks || []), [] as string[]);
+  }
+
+  /**
+   * "Done today" section listing completed tasks. Plain bullets, so the
+   * journal does not add tasks of its own to the vault.
+   */
+  static renderDoneList(tasks: string[]): string {
+    return `## Done today\n\n${tasks.map(task => `- ${task}`).join('\n')}`;
+  }
+
+  private static getStatus(marker: string): TaskStatus {
+    switch (marker.toLowerCase()) {
+      case 'x':
+        return 'done';
+      case '/':
+        return 'in-progress';
+      case '-':
+        return 'cancelled';
+      default:
+        return 'open';
+    }
+  }
+}
@@ -0,0 +1,101 @@
+export class TimeParser {
+  // Leading time of day: "08:15", "8:15pm", "8 pm", "[14:30]", "14:30:05"
+  private static readonly LEADING_TIME_PATTERN =
+    /^(\[)?(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(?:([ap])\.?m\.?)?(\])?(?!\w|:\d)/i;
+
+  // Separators commonly placed between the time and the entry text
+  private static readonly SEPARATOR_PATTERN = /^\s*(?:[-–—|:>]\s*)?/;
+
+  /**
+   * Extract a leading time of day from a log line.
+   * Returns the normalized 24h time (HH:mm) and the remaining content,
+   * or null when the line does not start with a time.
+   */
+  static extractLeadingTime(line: string): { time: string; content: string } | null {
+    const match = line.match(this.LEADING_TIME_PATTERN);
+
+    if (!match) {
+      return null;
+    }
+
+    const [raw, openBracket, hoursRaw, minutesRaw, secondsRaw, meridiem, closeBracket] = match;
+
+    // Brackets must be balanced
+    if (Boolean(openBracket) !== Boolean(closeBracket)) {
+      return null;
+    }
+
+    // A bare number is not a time unless it carries am/pm
+    if (minutesRaw === undefined && !meridiem) {
+      return null;
+    }
+
+    let hours = parseInt(hoursRaw, 10);
+    const minutes = minutesRaw !== undefined ? parseInt(minutesRaw, 10) : 0;
+    const seconds = secondsRaw !== undefined ? parseInt(secondsRaw, 10) : 0;
+
+    if (minutes > 59 || seconds > 59) {
+      return null;
+    }
+
+    if (meridiem) {
+      if (hours < 1 || hours > 12) {
+        return null;
+      }
+
+      const isPm = meridiem.toLowerCase() === 'p';
+      hours = (hours % 12) + (isPm ? 12 : 0);
+    } else if (hours > 23) {
+      return null;
+    }
+
+    const content = line.substring(raw.length).replace(this.SEPARATOR_PATTERN, '').trim();
+
+    return {
+      time: this.formatTime(hours, minutes),
+      content
+    };
+  }
+
+  /**
+   * Check whether a value is a 24h time of day (H:mm or HH:mm)
+   */
+  static isValidTime(value: string): boolean {
+    return /^([01]?\d|2[0-3]):[0-5]\d$/.test(value.trim());
+  }
+
+  /**
+   * Convert a normalized HH:mm time into minutes since midnight
+   */
+  static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Sort items chronologically by their time of day.
+   * Items without a time stay attached to the closest timed item before them,
+   * so untimed follow-up lines keep their position in the timeline.
+   */
+  static sortChronologically<T extends { time?: string }>(items: T[]): T[] {
+    let currentKey = -1;
+
+    const keyed = items.map((item, index) => {
+      if (item.time) {
+        currentKey = this.toMinutes(item.time);
+      }
+      return { item, key: currentKey, index };
+    });
+
+    keyed.sort((a, b) => a.key - b.key || a.index - b.index);
+
+    return keyed.map(entry => entry.item);
+  }
+
+  /**
+   * Format hours and minutes as HH:mm
+   */
+  private static formatTime(hours: number, minutes: number): string {
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+  }
+}
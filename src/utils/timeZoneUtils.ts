@@ -0,0 +1,186 @@
+/**
+ * Timezone-aware date helpers. Daily note dates are calendar days (YYYY-MM-DD);
+ * "now" is interpreted in the home timezone (or a note's own timezone) rather
+ * than wherever the device currently is.
+ */
+export class TimeZoneUtils {
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * The timezone the device is currently set to
+   */
+  static getSystemTimeZone(): string {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch (error) {
+      return 'UTC';
+    }
+  }
+
+  /**
+   * Check whether a value is an IANA timezone name (e.g. Europe/Berlin)
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone || !timeZone.trim()) {
+      return false;
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timeZone.trim() });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Pick the first valid timezone, falling back to the device timezone
+   */
+  static resolveTimeZone(...candidates: (string | undefined)[]): string {
+    for (const candidate of candidates) {
+      if (candidate && this.isValidTimeZone(candidate)) {
+        return candidate.trim();
+      }
+    }
+
+    return this.getSystemTimeZone();
+  }
+
+  /**
+   * Calendar day (YYYY-MM-DD) of an instant in a timezone
+   */
+  static getDateKey(instant: Date, timeZone: string): string {
+    const parts = this.getZonedParts(instant, timeZone);
+    return this.formatDateKey(parts.year, parts.month, parts.day);
+  }
+
+  /**
+   * Minutes since midnight of an instant in a timezone
+   */
+  static getMinutesOfDay(instant: Date, timeZone: string): number {
+    const parts = this.getZonedParts(instant, timeZone);
+    return parts.hour * 60 + parts.minute;
+  }
+
+  /**
+   * Offset from UTC in minutes of a timezone at an instant (e.g. 120 for +02:00)
+   */
+  static getOffsetMinutes(instant: Date, timeZone: string): number {
+    const parts = this.getZonedParts(instant, timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+    return Math.round((asUtc - truncated) / 60000);
+  }
+
+  /**
+   * Local-calendar Date at midnight for a YYYY-MM-DD day, for use with
+   * formatting helpers. Unlike new Date('YYYY-MM-DD') this is not parsed as UTC.
+   */
+  static toLocalDate(dateKey: string): Date {
+    const [year, month, day] = dateKey.split('-').map(part => parseInt(part, 10));
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * YYYY-MM-DD of a local-calendar Date
+   */
+  static toDateKey(date: Date): string {
+    return this.formatDateKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  /**
+   * Shift a YYYY-MM-DD day by a number of days
+   */
+  static addDays(dateKey: string, days: number): string {
+    const [year, month, day] = dateKey.split('-').map(part => parseInt(part, 10));
+    const shifted = new Date(Date.UTC(year, month - 1, day + days));
+    return this.formatDateKey(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+  }
+
+  /**
+   * Day of the week of a YYYY-MM-DD day (0 = Sunday)
+   */
+  static getWeekday(dateKey: string): number {
+    const [year, month, day] = dateKey.split('-').map(part => parseInt(part, 10));
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  }
+
+  /**
+   * ISO 8601 timestamp with offset for a wall-clock time on a day in a timezone,
+   * e.g. 2024-02-17T00:00:00-08:00
+   */
+  static toISOString(dateKey: string, time: string, timeZone: string): string {
+    const [year, month, day] = dateKey.split('-').map(part => parseInt(part, 10));
+    const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // The offset depends on the instant; refine once to land on the right side of DST changes
+    let offset = this.getOffsetMinutes(new Date(wallClock), timeZone);
+    offset = this.getOffsetMinutes(new Date(wallClock - offset * 60000), timeZone);
+
+    return `${dateKey}T${this.pad(hours)}:${this.pad(minutes)}:00${this.formatOffset(offset)}`;
+  }
+
+  /**
+   * ISO 8601 timestamp with offset for an instant as seen in a timezone
+   */
+  static formatInstant(instant: Date, timeZone: string): string {
+    const parts = this.getZonedParts(instant, timeZone);
+    const offset = this.getOffsetMinutes(instant, timeZone);
+
+    return `${this.formatDateKey(parts.year, parts.month, parts.day)}T${this.pad(parts.hour)}:${this.pad(parts.minute)}:${this.pad(parts.second)}${this.formatOffset(offset)}`;
+  }
+
+  private static getZonedParts(instant: Date, timeZone: string): {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+  } {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+
+    // en-US formats as "MM/DD/YYYY, HH:mm:ss"
+    const match = formatter.format(instant).match(/(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+):(\d+)/);
+    if (!match) {
+      throw new Error(`Could not resolve time in timezone ${timeZone}`);
+    }
+
+    return {
+      year: parseInt(match[3], 10),
+      month: parseInt(match[1], 10),
+      day: parseInt(match[2], 10),
+      hour: parseInt(match[4], 10) % 24, // some engines print midnight as 24
+      minute: parseInt(match[5], 10),
+      second: parseInt(match[6], 10)
+    };
+  }
+
+  private static formatOffset(offsetMinutes: number): string {
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const absolute = Math.abs(offsetMinutes);
+    return `${sign}${this.pad(Math.floor(absolute / 60))}:${this.pad(absolute % 60)}`;
+  }
+
+  private static formatDateKey(year: number, month: number, day: number): string {
+    return `${year}-${this.pad(month)}-${this.pad(day)}`;
+  }
+
+  private static pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+}
@@ -1,4 +1,4 @@
-import { AIService, AIServiceConfig, AIServiceResponse } from '../src/services/ai/aiService';
+import { AIService, AIServiceConfig, AIServiceResponse, AIImagePart } from '../src/services/ai/aiService';
 import { OpenAIService } from '../src/services/ai/openaiService';
 import { GeminiService } from '../src/services/ai/geminiService';
 import { OllamaService } from '../src/services/ai/ollamaService';
@@ -37,11 +37,15 @@ class TestAIService extends AIService {
   }
 
   // Expose protected method for testing
-  public testPreparePrompt(template: string, content: string, language?: string): string {
-    return this.preparePrompt(template, content, language);
+  public testPreparePrompt(template: string, content: string, language?: string, imageCount?: number): string {
+    return this.preparePrompt(template, content, language, imageCount);
   }
 }
 
+const photo: AIImagePart = { mimeType: 'image/jpeg', data: 'aGVsbG8=' };
+
+const getRequestBody = (): any => JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+
 describe('AIService Base Class', () => {
   let service: TestAIService;
   const mockConfig: AIServiceConfig = {
@@ -98,6 +102,11 @@ describe('AIService Base Class', () => {
       
       expect(result).toContain('Process:');
     });
+
+    it('should mention attached photos only when there are some', () => {
+      expect(service.testPreparePrompt('Process: {content}', 'Entry', 'en', 2)).toContain('The 2 attached photos were taken during this day');
+      expect(service.testPreparePrompt('Process: {content}', 'Entry', 'en')).not.toContain('attached photo');
+    });
   });
 
   describe('validateConfig', () => {
@@ -176,6 +185,59 @@ describe('OpenAIService', () => {
 
       await expect(service.processContent('content', 'prompt')).rejects.toThrow('server error. Please try again later');
     });
+
+    it('should not send a request when already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(service.processContent('content', 'prompt', undefined, controller.signal))
+        .rejects.toThrow('Request cancelled');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort the in-flight request without retrying when cancelled', async () => {
+      const controller = new AbortController();
+
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) =>
+        new Promise((resolve, reject) => {
+          options.signal?.addEventListener('abort', () => {
+            const abortError = new Error('The operation was aborted');
+            abortError.name = 'AbortError';
+            reject(abortError);
+          });
+        })
+      );
+
+      const request = service.processContent('content', 'prompt', undefined, controller.signal);
+      controller.abort();
+
+      await expect(request).rejects.toThrow('Request cancelled');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send images as a content array of data URLs', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ choices: [{ message: { content: 'Generated journal entry' } }] })
+      });
+
+      await service.processContent('content', 'prompt {content}', undefined, undefined, [photo]);
+
+      const content = getRequestBody().messages[0].content;
+      expect(content[0]).toEqual({ type: 'text', text: expect.stringContaining('prompt content') });
+      expect(content[1]).toEqual({ type: 'image_url', image_url: { url: 'data:image/jpeg;base64,aGVsbG8=' } });
+    });
+
+    it('should keep plain text messages without images', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ choices: [{ message: { content: 'Generated journal entry' } }] })
+      });
+
+      await service.processContent('content', 'prompt {content}');
+
+      expect(typeof getRequestBody().messages[0].content).toBe('string');
+    });
   });
 
   describe('testConnection', () => {
@@ -265,6 +327,19 @@ describe('GeminiService', () => {
       expect(result.content).toBe('Generated Gemini response');
       expect(result.sentiment).toBe('Neutral');
     });
+
+    it('should send images as inline_data parts', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Generated Gemini response' }] } }] })
+      });
+
+      await service.processContent('content', 'prompt {content}', undefined, undefined, [photo]);
+
+      const parts = getRequestBody().contents[0].parts;
+      expect(parts).toHaveLength(2);
+      expect(parts[1]).toEqual({ inline_data: { mime_type: 'image/jpeg', data: 'aGVsbG8=' } });
+    });
   });
 
   describe('validateConfig', () => {
@@ -309,6 +384,28 @@ describe('OllamaService', () => {
       expect(result.content).toBe('Generated Ollama response');
       expect(result.sentiment).toBe('Neutral');
     });
+
+    it('should send images in the images field', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ response: 'Generated Ollama response' })
+      });
+
+      await service.processContent('content', 'prompt {content}', undefined, undefined, [photo]);
+
+      expect(getRequestBody().images).toEqual(['aGVsbG8=']);
+    });
+
+    it('should leave out the images field without images', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ response: 'Generated Ollama response' })
+      });
+
+      await service.processContent('content', 'prompt {content}');
+
+      expect(getRequestBody().images).toBeUndefined();
+    });
   });
 
   describe('validateConfig', () => {
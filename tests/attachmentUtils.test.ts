@@ -0,0 +1,64 @@
+import { AttachmentUtils } from '../src/utils/attachmentUtils';
+import { DailyNoteEntry } from '../src/models/types';
+
+describe('AttachmentUtils', () => {
+  describe('isImage', () => {
+    it('should recognize image files', () => {
+      expect(AttachmentUtils.isImage('Attachments/IMG_1234.JPG')).toBe(true);
+      expect(AttachmentUtils.isImage('photo.webp')).toBe(true);
+      expect(AttachmentUtils.isImage('receipt.pdf')).toBe(false);
+    });
+  });
+
+  describe('collect', () => {
+    const entries: DailyNoteEntry[] = [
+      { content: 'Breakfast at the market', attachments: ['market.jpg'] },
+      { content: 'Worked all afternoon' },
+      { content: 'Sunset walk on the beach', attachments: ['sunset.jpg', 'waves.mp4', 'market.jpg'] }
+    ];
+
+    it('should keep order, context and position of each attachment once', () => {
+      expect(AttachmentUtils.collect(entries, 10)).toEqual([
+        { path: 'market.jpg', context: 'Breakfast at the market', position: 0 },
+        { path: 'sunset.jpg', context: 'Sunset walk on the beach', position: 1 },
+        { path: 'waves.mp4', context: 'Sunset walk on the beach', position: 1 }
+      ]);
+    });
+
+    it('should stop at the maximum', () => {
+      expect(AttachmentUtils.collect(entries, 2).map(attachment => attachment.path)).toEqual(['market.jpg', 'sunset.jpg']);
+    });
+  });
+
+  describe('renderGallery', () => {
+    it('should embed every attachment under a heading', () => {
+      const gallery = AttachmentUtils.renderGallery([
+        { path: 'a.jpg', context: '', position: 0 },
+        { path: 'b.png', context: '', position: 1 }
+      ]);
+
+      expect(gallery).toBe('## Gallery\n\n![[a.jpg]]\n![[b.png]]');
+    });
+  });
+
+  describe('placeInline', () => {
+    const content = 'The morning started at the market with fresh bread.\n\nIn the evening we walked along the beach until sunset.';
+
+    it('should place attachments after the paragraph sharing the most words', () => {
+      const result = AttachmentUtils.placeInline(content, [
+        { path: 'sunset.jpg', context: 'Sunset walk on the beach', position: 0 }
+      ]);
+
+      expect(result).toBe('The morning started at the market with fresh bread.\n\nIn the evening we walked along the beach until sunset.\n\n![[sunset.jpg]]');
+    });
+
+    it('should fall back to the position in the day', () => {
+      const result = AttachmentUtils.placeInline(content, [
+        { path: 'first.jpg', context: 'Frühstück', position: 0 },
+        { path: 'last.jpg', context: 'Abendessen', position: 1 }
+      ]);
+
+      expect(result).toBe('The morning started at the market with fresh bread.\n\n![[first.jpg]]\n\nIn the evening we walked along the beach until sunset.\n\n![[last.jpg]]');
+    });
+  });
+});
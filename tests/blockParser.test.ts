@@ -0,0 +1,71 @@
+import { BlockParser } from '../src/utils/blockParser';
+
+describe('BlockParser', () => {
+  describe('parseBlocks', () => {
+    it('should keep child bullets with their top-level line', () => {
+      const blocks = BlockParser.parseBlocks([
+        '- 09:00 Team meeting',
+        '  - discussed the roadmap',
+        '    - launch moves to May',
+        '  - lunch afterwards',
+        '- Gym'
+      ]);
+
+      expect(blocks).toEqual([
+        {
+          line: '- 09:00 Team meeting',
+          children: [
+            { text: '- discussed the roadmap', depth: 1 },
+            { text: '- launch moves to May', depth: 2 },
+            { text: '- lunch afterwards', depth: 1 }
+          ]
+        },
+        { line: '- Gym', children: [] }
+      ]);
+    });
+
+    it('should treat tab indentation like spaces', () => {
+      const blocks = BlockParser.parseBlocks(['- Trip', '\t- train', '\t\t- delayed']);
+
+      expect(blocks[0].children).toEqual([
+        { text: '- train', depth: 1 },
+        { text: '- delayed', depth: 2 }
+      ]);
+    });
+
+    it('should join wrapped lines onto the line they continue', () => {
+      const blocks = BlockParser.parseBlocks([
+        '- 18:30 Walked home along the river and',
+        'watched the sunset',
+        '  - took photos of the',
+        '    old bridge'
+      ]);
+
+      expect(blocks).toEqual([{
+        line: '- 18:30 Walked home along the river and watched the sunset',
+        children: [{ text: '- took photos of the old bridge', depth: 1 }]
+      }]);
+    });
+
+    it('should start a new block for plain lines, timed lines and lines after a blank line', () => {
+      const blocks = BlockParser.parseBlocks([
+        'Today I went to the store',
+        'I also visited the park',
+        '- Coffee with Ana',
+        '10:30 Dentist',
+        '- Reading',
+        '',
+        'Evening thoughts'
+      ]);
+
+      expect(blocks.map(block => block.line)).toEqual([
+        'Today I went to the store',
+        'I also visited the park',
+        '- Coffee with Ana',
+        '10:30 Dentist',
+        '- Reading',
+        'Evening thoughts'
+      ]);
+    });
+  });
+});
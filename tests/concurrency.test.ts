@@ -0,0 +1,88 @@
+import { Concurrency, SerialQueue } from '../src/utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Concurrency', () => {
+  describe('runPool', () => {
+    it('should never run more workers than the limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const seen: number[] = [];
+
+      await Concurrency.runPool([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        seen.push(item);
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(3);
+      expect(seen.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('should run sequentially with a limit of 1 or less', async () => {
+      const order: string[] = [];
+
+      await Concurrency.runPool(['a', 'b', 'c'], 0, async (item) => {
+        order.push(`start ${item}`);
+        await delay(1);
+        order.push(`end ${item}`);
+      });
+
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+    });
+
+    it('should finish the remaining items before rethrowing the first error', async () => {
+      const done: number[] = [];
+
+      await expect(Concurrency.runPool([1, 2, 3, 4], 2, async (item) => {
+        if (item === 2) {
+          throw new Error('boom');
+        }
+        done.push(item);
+      })).rejects.toThrow('boom');
+
+      expect(done.sort()).toEqual([1, 3, 4]);
+    });
+
+    it('should resolve immediately for an empty list', async () => {
+      const worker = jest.fn();
+
+      await Concurrency.runPool([], 3, worker);
+
+      expect(worker).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('SerialQueue', () => {
+  it('should run tasks one at a time in order', async () => {
+    const queue = new SerialQueue();
+    const order: string[] = [];
+
+    const task = (name: string, ms: number) => queue.run(async () => {
+      order.push(`start ${name}`);
+      await delay(ms);
+      order.push(`end ${name}`);
+      return name;
+    });
+
+    const results = await Promise.all([task('slow', 10), task('fast', 1)]);
+
+    expect(results).toEqual(['slow', 'fast']);
+    expect(order).toEqual(['start slow', 'end slow', 'start fast', 'end fast']);
+  });
+
+  it('should keep running tasks after one fails', async () => {
+    const queue = new SerialQueue();
+
+    const failing = queue.run(async () => {
+      throw new Error('write failed');
+    });
+    const next = queue.run(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('write failed');
+    await expect(next).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,131 @@
+import { DailyNotesConfig } from '../src/utils/dailyNotesConfig';
+import { TFile, TFolder } from 'obsidian';
+
+const createFile = (path: string): TFile => {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() as string;
+  return file;
+};
+
+const createApp = (options: {
+  dailyNotes?: any;
+  periodicNotes?: any;
+  files?: string[];
+}) => {
+  const folder = new TFolder();
+  folder.children = (options.files || []).map(createFile);
+
+  return {
+    vault: {
+      getAbstractFileByPath: jest.fn(() => folder)
+    },
+    internalPlugins: {
+      getPluginById: jest.fn(id => id === 'daily-notes' ? options.dailyNotes : null)
+    },
+    plugins: {
+      getPlugin: jest.fn(id => id === 'periodic-notes' ? options.periodicNotes : null)
+    }
+  } as any;
+};
+
+describe('DailyNotesConfig', () => {
+  describe('detect', () => {
+    it('should read the core Daily Notes settings', () => {
+      const app = createApp({
+        dailyNotes: { enabled: true, instance: { options: { folder: 'Journal/Daily/', format: 'DD.MM.YYYY' } } }
+      });
+
+      expect(DailyNotesConfig.detect(app)).toEqual([
+        { source: 'Daily Notes', folder: 'Journal/Daily', format: 'DD.MM.YYYY' }
+      ]);
+    });
+
+    it('should fall back to the Daily Notes defaults', () => {
+      const app = createApp({
+        dailyNotes: { enabled: true, instance: { options: {} } }
+      });
+
+      expect(DailyNotesConfig.detect(app)).toEqual([
+        { source: 'Daily Notes', folder: '/', format: 'YYYY-MM-DD' }
+      ]);
+    });
+
+    it('should ignore a disabled Daily Notes plugin', () => {
+      const app = createApp({
+        dailyNotes: { enabled: false, instance: { options: { folder: 'Daily' } } }
+      });
+
+      expect(DailyNotesConfig.detect(app)).toEqual([]);
+    });
+
+    it('should prefer Periodic Notes and support both settings layouts', () => {
+      const legacy = createApp({
+        periodicNotes: { settings: { daily: { enabled: true, folder: 'Periodic', format: 'YYYY/MM/YYYY-MM-DD' } } },
+        dailyNotes: { enabled: true, instance: { options: { folder: 'Daily' } } }
+      });
+      const calendarSets = createApp({
+        periodicNotes: {
+          settings: {
+            activeCalendarSet: 'work',
+            calendarSets: [
+              { id: 'default', day: { enabled: true, folder: 'Home', format: 'YYYY-MM-DD' } },
+              { id: 'work', day: { enabled: true, folder: 'Work', format: 'YYYYMMDD' } }
+            ]
+          }
+        }
+      });
+
+      expect(DailyNotesConfig.detect(legacy).map(config => config.source)).toEqual(['Periodic Notes', 'Daily Notes']);
+      expect(DailyNotesConfig.detect(legacy)[0]).toEqual({ source: 'Periodic Notes', folder: 'Periodic', format: 'YYYY/MM/YYYY-MM-DD' });
+      expect(DailyNotesConfig.detect(calendarSets)).toEqual([
+        { source: 'Periodic Notes', folder: 'Work', format: 'YYYYMMDD' }
+      ]);
+    });
+  });
+
+  describe('checkFormat', () => {
+    it('should count the notes whose names parse with the format', () => {
+      const app = createApp({ files: ['Daily/2024-02-17.md', 'Daily/2024-02-18.md', 'Daily/Ideas.md'] });
+
+      expect(DailyNotesConfig.checkFormat(app, 'Daily', 'YYYY-MM-DD')).toEqual({
+        total: 3,
+        parsed: 2,
+        suggestedFormat: null
+      });
+    });
+
+    it('should not count names that only contain part of a date', () => {
+      const app = createApp({ files: ['Daily Notes/2024-02-17.md', 'Daily Notes/Meeting notes 2024.md'] });
+
+      expect(DailyNotesConfig.checkFormat(app, 'Daily Notes', 'YYYY-MM-DD').parsed).toBe(1);
+    });
+
+    it('should suggest the format most file names use', () => {
+      const app = createApp({ files: ['Daily/17.02.2024.md', 'Daily/18.02.2024.md', 'Daily/19.02.2024.md'] });
+
+      const check = DailyNotesConfig.checkFormat(app, 'Daily', 'YYYYMMDD');
+
+      expect(check.suggestedFormat).toBe('DD.MM.YYYY');
+    });
+
+    it('should compare only the file name part of formats with folders', () => {
+      const app = createApp({ files: ['Daily/2024/02/2024-02-17.md', 'Daily/2024/02/2024-02-18.md'] });
+
+      const check = DailyNotesConfig.checkFormat(app, 'Daily', 'YYYY/MM/YYYY-MM-DD');
+
+      expect(check.parsed).toBe(2);
+      expect(check.suggestedFormat).toBeNull();
+    });
+
+    it('should report an empty folder', () => {
+      const app = createApp({ files: [] });
+
+      expect(DailyNotesConfig.checkFormat(app, 'Daily', 'YYYY-MM-DD')).toEqual({
+        total: 0,
+        parsed: 0,
+        suggestedFormat: null
+      });
+    });
+  });
+});
@@ -42,6 +42,12 @@ describe('DateUtils', () => {
       expect(DateUtils.parseDateFromFilename('2025-13-45.md', 'YYYY-MM-DD')).toBeNull();
     });
 
+    it('should only accept names that match the whole format when strict', () => {
+      expect(DateUtils.parseDateFromFilename('Daily Notes/Meeting notes 2024.md', 'YYYY-MM-DD', true)).toBeNull();
+      expect(DateUtils.parseDateFromFilename('Daily Notes/02.09.2025.md', 'YYYY-MM-DD', true)).toBeNull();
+      expect(DateUtils.parseDateFromFilename('Daily Notes/2025-09-02.md', 'YYYY-MM-DD', true)?.getDate()).toBe(2);
+    });
+
     it('should return null for empty or malformed inputs', () => {
       expect(DateUtils.parseDateFromFilename('', 'YYYY-MM-DD')).toBeNull();
       // Note: parseDateFromFilename with empty format may still parse successfully with moment.js
@@ -62,6 +68,26 @@ describe('DateUtils', () => {
     });
   });
 
+  describe('parseDateFromFilename with folder segments', () => {
+    it('should only use the basename when the format has no folders', () => {
+      const result = DateUtils.parseDateFromFilename('Daily Notes/2024/02/2024-02-17.md', 'YYYY-MM-DD');
+      expect(result?.getFullYear()).toBe(2024);
+      expect(result?.getMonth()).toBe(1);
+      expect(result?.getDate()).toBe(17);
+    });
+
+    it('should parse dates spread across folder segments', () => {
+      const result = DateUtils.parseDateFromFilename('Daily Notes/2024/02/17.md', 'YYYY/MM/DD');
+      expect(result?.getFullYear()).toBe(2024);
+      expect(result?.getMonth()).toBe(1);
+      expect(result?.getDate()).toBe(17);
+    });
+
+    it('should return null when the path has no date', () => {
+      expect(DateUtils.parseDateFromFilename('Daily Notes/Templates/daily.md', 'YYYY/MM/DD')).toBeNull();
+    });
+  });
+
   describe('formatDate', () => {
     it('should format dates correctly with various formats', () => {
       const testDate = new Date(2025, 8, 2, 15, 30, 45); // Sep 2, 2025, 3:30:45 PM
@@ -119,6 +145,29 @@ describe('DateUtils', () => {
       expect(DateUtils.isBeforeToday(todayMorning)).toBe(false);
       expect(DateUtils.isBeforeToday(todayEvening)).toBe(false);
     });
+
+    it('should keep the previous day open until the day end time', () => {
+      const yesterday = new Date(2025, 8, 1);
+
+      expect(DateUtils.isBeforeToday(yesterday, '04:00', undefined, new Date(2025, 8, 2, 2, 30))).toBe(false);
+      expect(DateUtils.isBeforeToday(yesterday, '04:00', undefined, new Date(2025, 8, 2, 4, 0))).toBe(true);
+      expect(DateUtils.isBeforeToday(yesterday, '00:00', undefined, new Date(2025, 8, 2, 0, 5))).toBe(true);
+    });
+
+    it('should judge today in the given timezone', () => {
+      const day = new Date(2024, 1, 17);
+      // 2024-02-17 20:00 UTC is already the 18th in Tokyo but still the 17th in Los Angeles
+      const now = new Date('2024-02-17T20:00:00Z');
+
+      expect(DateUtils.isBeforeToday(day, '00:00', 'Asia/Tokyo', now)).toBe(true);
+      expect(DateUtils.isBeforeToday(day, '00:00', 'America/Los_Angeles', now)).toBe(false);
+    });
+
+    it('should treat an invalid day end time as midnight', () => {
+      const yesterday = new Date(2025, 8, 1);
+
+      expect(DateUtils.isBeforeToday(yesterday, 'late', undefined, new Date(2025, 8, 2, 1, 0))).toBe(true);
+    });
   });
 
   describe('generateFilename', () => {
@@ -198,6 +247,26 @@ describe('DateUtils', () => {
         .toBe('Log-2025-09-02-09-30.md'); // 21:30 = 9:30 PM
     });
 
+    it('should keep folder segments in templates', () => {
+      const testDate = new Date(2024, 1, 17);
+
+      expect(DateUtils.generateFilename(testDate, 'YYYY/MM/Journal-YYYY-MM-DD.md'))
+        .toBe('2024/02/Journal-2024-02-17.md');
+
+      expect(DateUtils.generateFilename(testDate, 'YYYY/MMMM/Journal-YYYY-MM-DD.md'))
+        .toBe('2024/February/Journal-2024-02-17.md');
+    });
+
+    it('should not re-tokenize month and day names', () => {
+      const testDate = new Date(2024, 11, 3);
+
+      expect(DateUtils.generateFilename(testDate, 'YYYY/MMMM/YYYY-MM-DD.md'))
+        .toBe('2024/December/2024-12-03.md');
+
+      expect(DateUtils.generateFilename(new Date(2024, 2, 5), 'MMMM-D.md'))
+        .toBe('March-5.md');
+    });
+
     it('should handle edge cases for date boundaries', () => {
       // New Year's Day
       const newYear = new Date(2025, 0, 1);
@@ -284,6 +353,12 @@ describe('DateUtils', () => {
       expect(['MM.DD.YYYY', 'YYYY-MM-DD']).toContain(dotMmddResult);
     });
 
+    it('should match the whole name when strict', () => {
+      expect(DateUtils.inferDateFormat('02.09.2025.md', true)).toBe('DD.MM.YYYY');
+      expect(DateUtils.inferDateFormat('20250902.md', true)).toBe('YYYYMMDD');
+      expect(DateUtils.inferDateFormat('2025-09-02 Trip.md', true)).toBeNull();
+    });
+
     it('should handle filenames without extensions', () => {
       expect(DateUtils.inferDateFormat('2025-09-02')).toBe('YYYY-MM-DD');
       const compactResult = DateUtils.inferDateFormat('20250902');
@@ -0,0 +1,27 @@
+import { DiffUtils } from '../src/utils/diffUtils';
+
+describe('DiffUtils', () => {
+  describe('diffLines', () => {
+    it('should mark changed lines as removed and added', () => {
+      const result = DiffUtils.diffLines('# Day\n\nWent to the park.\nHad lunch.', '# Day\n\nWent to the beach.\nHad lunch.');
+
+      expect(result).toEqual([
+        { type: 'same', text: '# Day' },
+        { type: 'same', text: '' },
+        { type: 'removed', text: 'Went to the park.' },
+        { type: 'added', text: 'Went to the beach.' },
+        { type: 'same', text: 'Had lunch.' }
+      ]);
+    });
+
+    it('should handle lines added at the end and removed at the start', () => {
+      const result = DiffUtils.diffLines('Intro\nBody', 'Body\nOutro');
+
+      expect(result.map(line => `${line.type}:${line.text}`)).toEqual(['removed:Intro', 'same:Body', 'added:Outro']);
+    });
+
+    it('should report no changes for identical texts', () => {
+      expect(DiffUtils.diffLines('a\nb', 'a\nb').every(line => line.type === 'same')).toBe(true);
+    });
+  });
+});
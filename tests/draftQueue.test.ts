@@ -0,0 +1,53 @@
+import { DraftQueue } from '../src/services/draftQueue';
+import { JournalDraft } from '../src/models/types';
+
+const draft = (date: string, content: string = `Journal for ${date}`): JournalDraft => ({
+  date,
+  dailyNote: { file: `Daily Notes/${date}.md`, date, entries: [{ content: 'Walked to work', time: '08:30' }], coordinates: [] },
+  content,
+  provider: 'openai',
+  model: 'gpt-4',
+  createdAt: '2025-09-05T20:00:00.000Z'
+});
+
+describe('DraftQueue', () => {
+  let drafts: DraftQueue;
+  let persist: jest.Mock;
+
+  beforeEach(() => {
+    persist = jest.fn().mockResolvedValue(undefined);
+    drafts = new DraftQueue({}, persist);
+  });
+
+  it('should keep one draft per date, replacing earlier ones', async () => {
+    await drafts.add(draft('2025-09-01', 'First try'));
+    await drafts.add(draft('2025-09-01', 'Second try'));
+
+    expect(drafts.count()).toBe(1);
+    expect(drafts.get('2025-09-01')?.content).toBe('Second try');
+    expect(persist).toHaveBeenCalledTimes(2);
+  });
+
+  it('should list drafts with the oldest date first', async () => {
+    await drafts.add(draft('2025-09-03'));
+    await drafts.add(draft('2025-09-01'));
+    await drafts.add(draft('2025-09-02'));
+
+    expect(drafts.getAll().map(d => d.date)).toEqual(['2025-09-01', '2025-09-02', '2025-09-03']);
+  });
+
+  it('should not persist removing a date without a draft', async () => {
+    await drafts.add(draft('2025-09-01'));
+    await drafts.remove('2025-09-01');
+    await drafts.remove('2025-09-01');
+
+    expect(drafts.count()).toBe(0);
+    expect(persist).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restore drafts from plugin data', () => {
+    const restored = new DraftQueue(new DraftQueue({ '2025-09-01': draft('2025-09-01') }).toJSON());
+
+    expect(restored.get('2025-09-01')?.dailyNote.entries[0].content).toBe('Walked to work');
+  });
+});
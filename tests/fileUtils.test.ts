@@ -1,5 +1,5 @@
 import { FileUtils } from '../src/utils/fileUtils';
-import { TFile } from 'obsidian';
+import { TFile, TFolder } from 'obsidian';
 
 // Mock Obsidian App and related classes
 const mockApp = {
@@ -72,6 +72,20 @@ This is the content of the note.`;
       expect(result.body).toBe('This is the content of the note.');
     });
 
+    it('should unquote single and double quoted values', () => {
+      const content = `---
+journal-prompt: 'Focus on the hike'
+journal-language: "Spanish"
+---
+
+Body`;
+
+      const result = FileUtils.parseFrontmatter(content);
+
+      expect(result.frontmatter['journal-prompt']).toBe('Focus on the hike');
+      expect(result.frontmatter['journal-language']).toBe('Spanish');
+    });
+
     it('should handle content without frontmatter', () => {
       const content = 'This is just regular content without frontmatter.';
       const result = FileUtils.parseFrontmatter(content);
@@ -167,6 +181,41 @@ Content should still be extracted.`;
     });
   });
 
+  describe('getParentPath', () => {
+    it('should return the parent folder of a path', () => {
+      expect(FileUtils.getParentPath('Journal/2024/February/Journal-2024-02-17.md')).toBe('Journal/2024/February');
+      expect(FileUtils.getParentPath('Journal/entry.md')).toBe('Journal');
+    });
+
+    it('should return an empty string for root-level paths', () => {
+      expect(FileUtils.getParentPath('entry.md')).toBe('');
+    });
+  });
+
+  describe('ensureFolder', () => {
+    it('should create missing nested folders from the top down', async () => {
+      const existing = new Map<string, any>([['Journal', new TFolder()]]);
+      mockApp.vault.getAbstractFileByPath.mockImplementation((path: string) => existing.get(path) || null);
+      mockApp.vault.createFolder.mockImplementation(async (path: string) => {
+        existing.set(path, new TFolder());
+      });
+
+      const folder = await FileUtils.ensureFolder(mockApp as any, 'Journal/2024/February');
+
+      expect(folder).toBeInstanceOf(TFolder);
+      expect(mockApp.vault.createFolder.mock.calls.map(call => call[0])).toEqual([
+        'Journal/2024',
+        'Journal/2024/February'
+      ]);
+    });
+
+    it('should throw when the path is a file', async () => {
+      mockApp.vault.getAbstractFileByPath.mockReturnValue(new TFile());
+
+      await expect(FileUtils.ensureFolder(mockApp as any, 'Journal')).rejects.toThrow('Path exists but is not a folder: Journal');
+    });
+  });
+
   describe('integration tests', () => {
     it('should handle complete frontmatter workflow', () => {
       const originalContent = `---
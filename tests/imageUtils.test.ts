@@ -0,0 +1,23 @@
+import { ImageUtils } from '../src/utils/imageUtils';
+
+describe('ImageUtils', () => {
+  describe('canPrepare', () => {
+    it('should accept formats the app can decode', () => {
+      expect(ImageUtils.canPrepare('Attachments/IMG_1234.JPG')).toBe(true);
+      expect(ImageUtils.canPrepare('screenshot.png')).toBe(true);
+      expect(ImageUtils.canPrepare('diagram.svg')).toBe(false);
+      expect(ImageUtils.canPrepare('IMG_5678.heic')).toBe(false);
+    });
+  });
+
+  describe('fitWithin', () => {
+    it('should scale the longest side down and keep the aspect ratio', () => {
+      expect(ImageUtils.fitWithin(4032, 3024, 1536)).toEqual({ width: 1536, height: 1152 });
+      expect(ImageUtils.fitWithin(3024, 4032, 768)).toEqual({ width: 576, height: 768 });
+    });
+
+    it('should keep smaller images at their size', () => {
+      expect(ImageUtils.fitWithin(800, 600, 1536)).toEqual({ width: 800, height: 600 });
+    });
+  });
+});
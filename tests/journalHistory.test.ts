@@ -0,0 +1,82 @@
+import { JournalHistory } from '../src/services/journalHistory';
+
+describe('JournalHistory', () => {
+  const folder = '.obsidian/plugins/daily-journal/journal-history';
+  let files: Record<string, string>;
+  let adapter: { exists: jest.Mock; read: jest.Mock; write: jest.Mock; mkdir: jest.Mock };
+  let history: JournalHistory;
+
+  beforeEach(() => {
+    files = {};
+    adapter = {
+      exists: jest.fn(async (path: string) => path === folder ? Object.keys(files).length > 0 : path in files),
+      read: jest.fn(async (path: string) => files[path]),
+      write: jest.fn(async (path: string, data: string) => {
+        files[path] = data;
+      }),
+      mkdir: jest.fn().mockResolvedValue(undefined)
+    };
+    history = new JournalHistory(adapter as any, folder);
+  });
+
+  it('should number versions per date and list the newest first', async () => {
+    await history.addVersion('2025-09-01', 'First', 'regenerated', 10);
+    await history.addVersion('2025-09-01', 'Second', 'regenerated', 10);
+    await history.addVersion('2025-09-02', 'Other day', 'regenerated', 10);
+
+    expect((await history.getVersions('2025-09-01')).map(v => [v.version, v.content])).toEqual([[2, 'Second'], [1, 'First']]);
+    expect((await history.getVersion('2025-09-02', 1))?.content).toBe('Other day');
+  });
+
+  it('should keep the versions of each date in a file of their own', async () => {
+    await history.addVersion('2025-09-01', 'First', 'regenerated', 10);
+    await history.addVersion('2025-09-02', 'Other day', 'regenerated', 10);
+
+    expect(Object.keys(files)).toEqual([`${folder}/2025-09-01.json`, `${folder}/2025-09-02.json`]);
+    expect(adapter.mkdir).toHaveBeenCalledWith(folder);
+  });
+
+  it('should not save the same content twice in a row', async () => {
+    await history.addVersion('2025-09-01', 'Same', 'regenerated', 10);
+    const repeated = await history.addVersion('2025-09-01', 'Same', 'restored', 10);
+
+    expect(repeated?.version).toBe(1);
+    expect(await history.getVersions('2025-09-01')).toHaveLength(1);
+    expect(adapter.write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop the oldest versions but keep counting', async () => {
+    for (const content of ['One', 'Two', 'Three', 'Four']) {
+      await history.addVersion('2025-09-01', content, 'regenerated', 2);
+    }
+
+    expect((await history.getVersions('2025-09-01')).map(v => v.version)).toEqual([4, 3]);
+    expect(await history.getVersion('2025-09-01', 1)).toBeUndefined();
+  });
+
+  it('should fail and keep the earlier versions when a version cannot be saved', async () => {
+    await history.addVersion('2025-09-01', 'First', 'regenerated', 10);
+    adapter.write.mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(history.addVersion('2025-09-01', 'Second', 'regenerated', 10))
+      .rejects.toThrow('Failed to save journal history for 2025-09-01: disk full');
+    expect((await history.getVersions('2025-09-01')).map(v => v.content)).toEqual(['First']);
+  });
+
+  it('should read versions saved in an earlier session', async () => {
+    await history.addVersion('2025-09-01', 'First', 'regenerated', 10);
+    const reopened = new JournalHistory(adapter as any, folder);
+
+    await reopened.addVersion('2025-09-01', 'Second', 'regenerated', 10);
+
+    expect((await reopened.getVersions('2025-09-01')).map(v => v.version)).toEqual([2, 1]);
+  });
+
+  it('should keep versions in memory without a folder', async () => {
+    const inMemory = new JournalHistory();
+
+    await inMemory.addVersion('2025-09-01', 'First', 'regenerated', 10);
+
+    expect(await inMemory.getVersions('2025-09-01')).toHaveLength(1);
+  });
+});
@@ -1,5 +1,6 @@
 import { JournalManager } from '../src/services/journalManager';
-import { JournalPluginSettings, DailyNote, JournalEntry } from '../src/models/types';
+import { JournalHistory } from '../src/services/journalHistory';
+import { JournalPluginSettings, DEFAULT_SETTINGS, DailyNote, JournalEntry } from '../src/models/types';
 import { DateUtils } from '../src/utils/dateUtils';
 import { FileUtils } from '../src/utils/fileUtils';
 import { CoordinateParser } from '../src/utils/coordinateParser';
@@ -22,6 +23,7 @@ const mockApp = {
 
 describe('JournalManager', () => {
   let manager: JournalManager;
+  let history: JournalHistory;
   let mockSettings: JournalPluginSettings;
 
   // Mock implementations
@@ -31,6 +33,7 @@ describe('JournalManager', () => {
 
   beforeEach(() => {
     mockSettings = {
+      ...DEFAULT_SETTINGS,
       sourceFolder: 'Daily Notes',
       dateFormat: 'YYYY-MM-DD',
       destinationFolder: 'Journal',
@@ -46,7 +49,8 @@ describe('JournalManager', () => {
       customPrompt: 'Transform this content'
     };
 
-    manager = new JournalManager(mockApp as any, mockSettings);
+    history = new JournalHistory();
+    manager = new JournalManager(mockApp as any, mockSettings, history);
 
     // Reset all mocks
     jest.clearAllMocks();
@@ -95,6 +99,90 @@ describe('JournalManager', () => {
       );
     });
 
+    it('should write the day with its timezone offset in the frontmatter', async () => {
+      const dailyNote: DailyNote = {
+        file: 'Daily Notes/2025-01-15.md',
+        date: '2025-01-15',
+        entries: [{ content: 'Landed in Tokyo' }],
+        coordinates: [],
+        overrides: { timeZone: 'Asia/Tokyo' }
+      };
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-01-15.md');
+      MockDateUtils.formatDate.mockReturnValue('January 15th, 2025');
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockFileUtils.ensureFolder.mockResolvedValue(undefined);
+      MockFileUtils.createFile.mockResolvedValue(undefined);
+      MockFileUtils.addFrontmatter.mockReturnValue('content');
+
+      const result = await manager.createJournalEntry(dailyNote, 'A long flight.');
+
+      expect(result.timeZone).toBe('Asia/Tokyo');
+      expect(MockFileUtils.addFrontmatter).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          date: '2025-01-15',
+          datetime: '2025-01-15T00:00:00+09:00',
+          timezone: 'Asia/Tokyo',
+          created: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[+-]\d{2}:\d{2}$/)
+        })
+      );
+    });
+
+    it('should add a gallery with the attachments of the daily note', async () => {
+      const dailyNote: DailyNote = {
+        file: 'Daily Notes/2025-09-02.md',
+        date: '2025-09-02',
+        entries: [
+          { content: 'Beach day', attachments: ['Attachments/IMG_1234.jpg', 'Attachments/IMG_1235.jpg'] }
+        ],
+        coordinates: []
+      };
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockDateUtils.formatDate.mockReturnValue('September 2nd, 2025');
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockFileUtils.ensureFolder.mockResolvedValue(undefined);
+      MockFileUtils.createFile.mockResolvedValue(undefined);
+      MockFileUtils.addFrontmatter.mockReturnValue('content');
+
+      manager.updateSettings({ ...mockSettings, attachmentPlacement: 'gallery', maxAttachments: 1 });
+      await manager.createJournalEntry(dailyNote, 'We spent the day at the beach.');
+
+      expect(MockFileUtils.addFrontmatter).toHaveBeenCalledWith(
+        '# September 2nd, 2025\n\nWe spent the day at the beach.\n\n## Gallery\n\n![[Attachments/IMG_1234.jpg]]',
+        expect.any(Object)
+      );
+    });
+
+    it('should list completed tasks before the gallery when "Done today" is on', async () => {
+      const dailyNote: DailyNote = {
+        file: 'Daily Notes/2025-09-02.md',
+        date: '2025-09-02',
+        entries: [
+          { content: 'Beach day', attachments: ['Attachments/IMG_1234.jpg'] },
+          { content: 'Ship the release', time: '09:00', task: 'done', completedTasks: ['09:00 Ship the release'] },
+          { content: 'Call Ana', task: 'done', links: [{ name: 'Ana', markup: '[[Ana Pérez|Ana]]' }], completedTasks: ['Call [[Ana Pérez|Ana]]'] }
+        ],
+        coordinates: []
+      };
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockDateUtils.formatDate.mockReturnValue('September 2nd, 2025');
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockFileUtils.ensureFolder.mockResolvedValue(undefined);
+      MockFileUtils.createFile.mockResolvedValue(undefined);
+      MockFileUtils.addFrontmatter.mockReturnValue('content');
+
+      manager.updateSettings({ ...mockSettings, attachmentPlacement: 'gallery', doneTodayList: true });
+      await manager.createJournalEntry(dailyNote, 'We spent the day at the beach.');
+
+      expect(MockFileUtils.addFrontmatter).toHaveBeenCalledWith(
+        '# September 2nd, 2025\n\nWe spent the day at the beach.\n\n## Done today\n\n- 09:00 Ship the release\n- Call [[Ana Pérez|Ana]]\n\n## Gallery\n\n![[Attachments/IMG_1234.jpg]]',
+        expect.any(Object)
+      );
+    });
+
     it('should update existing journal entry', async () => {
       const dailyNote: DailyNote = {
         file: 'Daily Notes/2025-09-02.md',
@@ -112,6 +200,7 @@ describe('JournalManager', () => {
       MockFileUtils.fileExists.mockReturnValue(true);
       MockFileUtils.ensureFolder.mockResolvedValue(undefined);
       MockFileUtils.updateFile.mockResolvedValue(undefined);
+      MockFileUtils.readFile.mockResolvedValue('Previous journal content');
       MockFileUtils.addFrontmatter.mockReturnValue('---\ndate: 2025-09-02\n---\n\nUpdated journal content.');
       mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
 
@@ -123,6 +212,31 @@ describe('JournalManager', () => {
         mockFile,
         expect.stringContaining('Updated journal content')
       );
+      expect(await manager.getJournalVersions('2025-09-02')).toEqual([
+        expect.objectContaining({ version: 1, content: 'Previous journal content', reason: 'regenerated' })
+      ]);
+    });
+
+    it('should keep the existing journal when its backup cannot be saved', async () => {
+      const dailyNote: DailyNote = {
+        file: 'Daily Notes/2025-09-02.md',
+        date: '2025-09-02',
+        entries: [{ content: 'Updated content' }],
+        coordinates: []
+      };
+      const mockFile = new TFile();
+      mockFile.path = 'Journal/Journal-2025-09-02.md';
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockFileUtils.fileExists.mockReturnValue(true);
+      MockFileUtils.ensureFolder.mockResolvedValue(undefined);
+      MockFileUtils.readFile.mockResolvedValue('Previous journal content');
+      MockFileUtils.addFrontmatter.mockReturnValue('Updated journal content.');
+      mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+      jest.spyOn(history, 'addVersion').mockRejectedValue(new Error('Failed to save journal history for 2025-09-02: disk full'));
+
+      await expect(manager.createJournalEntry(dailyNote, 'Updated journal content.')).rejects.toThrow('disk full');
+      expect(MockFileUtils.updateFile).not.toHaveBeenCalled();
     });
 
     it('should handle coordinates in frontmatter correctly', async () => {
@@ -155,6 +269,67 @@ describe('JournalManager', () => {
       expect(MockFileUtils.addFrontmatter).toHaveBeenCalled();
     });
 
+    it('should record the source note hash in frontmatter', async () => {
+      const dailyNote: DailyNote = {
+        file: 'Daily Notes/2025-09-02.md',
+        date: '2025-09-02',
+        entries: [{ content: 'Content' }],
+        coordinates: [],
+        contentHash: 'abc123'
+      };
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockDateUtils.formatDate.mockReturnValue('September 2nd, 2025');
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockFileUtils.ensureFolder.mockResolvedValue(undefined);
+      MockFileUtils.createFile.mockResolvedValue(undefined);
+      MockFileUtils.addFrontmatter.mockImplementation((content) => content);
+
+      const result = await manager.createJournalEntry(dailyNote, 'Content');
+
+      expect(result.sourceHash).toBe('abc123');
+      expect(MockFileUtils.addFrontmatter).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ source_hash: 'abc123' })
+      );
+    });
+
+    it('should write concurrent journal entries one at a time', async () => {
+      const makeNote = (date: string): DailyNote => ({
+        file: `Daily Notes/${date}.md`,
+        date,
+        entries: [{ content: 'Content' }],
+        coordinates: []
+      });
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockDateUtils.formatDate.mockReturnValue('September 2nd, 2025');
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockFileUtils.addFrontmatter.mockImplementation((content) => content);
+      MockFileUtils.ensureFolder.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return undefined as any;
+      });
+      MockFileUtils.createFile.mockImplementation(async () => {
+        inFlight--;
+        return undefined as any;
+      });
+
+      await Promise.all([
+        manager.createJournalEntry(makeNote('2025-09-01'), 'One'),
+        manager.createJournalEntry(makeNote('2025-09-02'), 'Two'),
+        manager.createJournalEntry(makeNote('2025-09-03'), 'Three')
+      ]);
+
+      expect(MockFileUtils.createFile).toHaveBeenCalledTimes(3);
+      expect(maxInFlight).toBe(1);
+    });
+
     it('should handle errors gracefully', async () => {
       const dailyNote: DailyNote = {
         file: 'Daily Notes/2025-09-02.md',
@@ -207,22 +382,80 @@ describe('JournalManager', () => {
   });
 
   describe('backupJournalEntry', () => {
-    it('should create backup of journal entry', async () => {
+    it('should save the journal to its version history', async () => {
       const mockFile = new TFile();
       mockFile.path = 'Journal/Journal-2025-09-02.md';
 
       MockFileUtils.readFile.mockResolvedValue('Original content');
-      MockFileUtils.createFile.mockResolvedValue(undefined);
 
-      const backupPath = await manager.backupJournalEntry(mockFile);
+      const version = await manager.backupJournalEntry(mockFile, '2025-09-02');
 
-      expect(backupPath).toMatch(/\.backup-/);
-      expect(MockFileUtils.createFile).toHaveBeenCalledWith(
-        mockApp,
-        expect.stringMatching(/\.backup-/),
-        'Original content'
+      expect(version).toEqual(expect.objectContaining({ version: 1, content: 'Original content' }));
+      expect(MockFileUtils.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should keep nothing when versions are turned off', async () => {
+      const mockFile = new TFile();
+      manager.updateSettings({ ...mockSettings, journalVersionsToKeep: 0 });
+      MockFileUtils.readFile.mockResolvedValue('Original content');
+
+      expect(await manager.backupJournalEntry(mockFile, '2025-09-02')).toBeNull();
+      expect(await manager.getJournalVersions('2025-09-02')).toEqual([]);
+    });
+  });
+
+  describe('restoreJournalVersion', () => {
+    it('should save the current journal before restoring a version', async () => {
+      const mockFile = new TFile();
+      mockFile.path = 'Journal/Journal-2025-09-02.md';
+      await history.addVersion('2025-09-02', 'First journal', 'regenerated', 10);
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockFileUtils.fileExists.mockReturnValue(true);
+      MockFileUtils.readFile.mockResolvedValue('Second journal');
+      mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+
+      await manager.restoreJournalVersion('2025-09-02', 1);
+
+      expect(MockFileUtils.updateFile).toHaveBeenCalledWith(mockApp, mockFile, 'First journal');
+      expect((await manager.getJournalVersions('2025-09-02'))[0]).toEqual(
+        expect.objectContaining({ version: 2, content: 'Second journal', reason: 'restored' })
       );
     });
+
+    it('should restore into the given file when it has an older file name', async () => {
+      const openFile = new TFile();
+      openFile.path = 'Journal/2025-09-02 Journal.md';
+      await history.addVersion('2025-09-02', 'First journal', 'regenerated', 10);
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockFileUtils.fileExists.mockImplementation((app, path) => path === openFile.path);
+      MockFileUtils.readFile.mockResolvedValue('Second journal');
+
+      await manager.restoreJournalVersion('2025-09-02', 1, openFile);
+
+      expect(MockFileUtils.updateFile).toHaveBeenCalledWith(mockApp, openFile, 'First journal');
+      expect(MockFileUtils.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should create the journal when the given file no longer exists', async () => {
+      const deletedFile = new TFile();
+      deletedFile.path = 'Journal/2025-09-02 Journal.md';
+      await history.addVersion('2025-09-02', 'First journal', 'regenerated', 10);
+
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-02.md');
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockFileUtils.ensureFolder.mockResolvedValue(undefined);
+
+      await manager.restoreJournalVersion('2025-09-02', 1, deletedFile);
+
+      expect(MockFileUtils.updateFile).not.toHaveBeenCalled();
+      expect(MockFileUtils.createFile).toHaveBeenCalledWith(mockApp, 'Journal/Journal-2025-09-02.md', 'First journal');
+    });
+
+    it('should fail for versions that are no longer kept', async () => {
+      await expect(manager.restoreJournalVersion('2025-09-02', 3)).rejects.toThrow('version 3 of 2025-09-02 is no longer kept');
+    });
   });
 
   describe('validateAndCreateDestination', () => {
@@ -0,0 +1,117 @@
+import { LinkParser } from '../src/utils/linkParser';
+
+describe('LinkParser', () => {
+  const resolveNone = (): { basename: string; path: string } | null => null;
+
+  describe('replaceLinks', () => {
+    it('should replace links with their names', () => {
+      const result = LinkParser.replaceLinks('Lunch with [[Ana Pérez]] at [[Café Central]]', resolveNone);
+
+      expect(result.text).toBe('Lunch with Ana Pérez at Café Central');
+      expect(result.links).toEqual([
+        { name: 'Ana Pérez', markup: '[[Ana Pérez]]' },
+        { name: 'Café Central', markup: '[[Café Central]]' }
+      ]);
+    });
+
+    it('should use aliases and keep the full link target', () => {
+      const result = LinkParser.replaceLinks('Called [[People/Ana Pérez#Contact|Ana]]', resolveNone);
+
+      expect(result.text).toBe('Called Ana');
+      expect(result.links).toEqual([{ name: 'Ana', markup: '[[People/Ana Pérez#Contact|Ana]]' }]);
+    });
+
+    it('should name links after the note they resolve to', () => {
+      const resolve = jest.fn(() => ({ basename: 'Ana Pérez', path: 'People/Ana Pérez.md' }));
+
+      const result = LinkParser.replaceLinks('Met [[ana]]', resolve);
+
+      expect(resolve).toHaveBeenCalledWith('ana');
+      expect(result.text).toBe('Met Ana Pérez');
+      expect(result.links).toEqual([{ name: 'Ana Pérez', markup: '[[ana|Ana Pérez]]' }]);
+    });
+
+    it('should fall back to the last path segment of unresolved links', () => {
+      const result = LinkParser.replaceLinks('Read [[Books/Dune.md]]', resolveNone);
+
+      expect(result.text).toBe('Read Dune');
+      expect(result.links).toEqual([{ name: 'Dune', markup: '[[Books/Dune.md|Dune]]' }]);
+    });
+
+    it('should move media embeds out of the text into attachments', () => {
+      const result = LinkParser.replaceLinks('Sunset ![[photo.jpg]] at the beach ![[clip.mp4]]', resolveNone);
+
+      expect(result.text).toBe('Sunset at the beach');
+      expect(result.links).toEqual([]);
+      expect(result.attachments).toEqual(['photo.jpg', 'clip.mp4']);
+    });
+
+    it('should move every audio format that can be transcribed into attachments', () => {
+      const result = LinkParser.replaceLinks('Memo ![[Recording 20240115093000.opus]] ![[call.aac]] ![[note.3gp]]', resolveNone);
+
+      expect(result.text).toBe('Memo');
+      expect(result.attachments).toEqual(['Recording 20240115093000.opus', 'call.aac', 'note.3gp']);
+    });
+
+    it('should use the resolved path of attachments', () => {
+      const resolve = jest.fn(() => ({ basename: 'IMG_1234', path: 'Attachments/IMG_1234.jpg' }));
+
+      const result = LinkParser.replaceLinks('![[IMG_1234.jpg]]', resolve);
+
+      expect(result.text).toBe('');
+      expect(result.attachments).toEqual(['Attachments/IMG_1234.jpg']);
+    });
+
+    it('should treat embedded notes like links', () => {
+      const result = LinkParser.replaceLinks('Notes: ![[Standup]]', resolveNone);
+
+      expect(result.text).toBe('Notes: Standup');
+      expect(result.links).toEqual([{ name: 'Standup', markup: '[[Standup]]' }]);
+    });
+
+    it('should keep the text of links to headings in the same note', () => {
+      const result = LinkParser.replaceLinks('See [[#Morning]]', resolveNone);
+
+      expect(result.text).toBe('See Morning');
+      expect(result.links).toEqual([]);
+    });
+  });
+
+  describe('restoreLinks', () => {
+    it('should link the first mention of each name', () => {
+      const links = [{ name: 'Ana Pérez', markup: '[[Ana Pérez]]' }];
+
+      expect(LinkParser.restoreLinks('I met Ana Pérez. Later Ana Pérez called.', links))
+        .toBe('I met [[Ana Pérez]]. Later Ana Pérez called.');
+    });
+
+    it('should prefer longer names and not link inside words or links', () => {
+      const links = [
+        { name: 'Ana', markup: '[[People/Ana|Ana]]' },
+        { name: 'Ana Pérez', markup: '[[Ana Pérez]]' }
+      ];
+
+      expect(LinkParser.restoreLinks('Banana bread with Ana Pérez, then Ana left.', links))
+        .toBe('Banana bread with [[Ana Pérez]], then [[People/Ana|Ana]] left.');
+    });
+
+    it('should leave text without mentions unchanged', () => {
+      expect(LinkParser.restoreLinks('A quiet day.', [{ name: 'Ana', markup: '[[Ana]]' }])).toBe('A quiet day.');
+    });
+  });
+
+  describe('collectLinks', () => {
+    it('should gather links of all entries once per name', () => {
+      const entries = [
+        { content: 'Ana', links: [{ name: 'Ana', markup: '[[Ana]]' }] },
+        { content: 'no links' },
+        { content: 'Ana again', links: [{ name: 'Ana', markup: '[[Ana]]' }, { name: 'Bo', markup: '[[Bo]]' }] }
+      ];
+
+      expect(LinkParser.collectLinks(entries)).toEqual([
+        { name: 'Ana', markup: '[[Ana]]' },
+        { name: 'Bo', markup: '[[Bo]]' }
+      ]);
+    });
+  });
+});
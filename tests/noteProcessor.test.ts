@@ -1,5 +1,6 @@
 import { NoteProcessor } from '../src/services/noteProcessor';
-import { JournalPluginSettings, DailyNote, AIProvider } from '../src/models/types';
+import { ProcessingLedger } from '../src/services/processingLedger';
+import { JournalPluginSettings, DEFAULT_SETTINGS, DailyNote, AIProvider } from '../src/models/types';
 import { DateUtils } from '../src/utils/dateUtils';
 import { FileUtils } from '../src/utils/fileUtils';
 import { CoordinateParser } from '../src/utils/coordinateParser';
@@ -34,6 +35,7 @@ describe('NoteProcessor', () => {
 
   beforeEach(() => {
     mockSettings = {
+      ...DEFAULT_SETTINGS,
       sourceFolder: 'Daily Notes',
       dateFormat: 'YYYY-MM-DD',
       destinationFolder: 'Journal',
@@ -49,7 +51,7 @@ describe('NoteProcessor', () => {
       customPrompt: 'Transform this content'
     };
 
-    processor = new NoteProcessor(mockApp as any, mockSettings);
+    processor = new NoteProcessor(mockApp as any, mockSettings, new ProcessingLedger());
 
     // Reset all mocks
     jest.clearAllMocks();
@@ -133,7 +135,8 @@ describe('NoteProcessor', () => {
           { content: 'Today I went to the store to buy groceries', coordinates: undefined },
           { content: 'I also visited the park for a walk', coordinates: undefined }
         ],
-        coordinates: []
+        coordinates: [],
+        contentHash: 'testhash'
       });
       expect(result[1]).toEqual({
         file: 'Daily Notes/2025-09-02.md',
@@ -142,7 +145,8 @@ describe('NoteProcessor', () => {
           { content: 'Today I went to the store to buy groceries', coordinates: undefined },
           { content: 'I also visited the park for a walk', coordinates: undefined }
         ],
-        coordinates: []
+        coordinates: [],
+        contentHash: 'testhash'
       });
     });
 
@@ -238,9 +242,646 @@ describe('NoteProcessor', () => {
         entries: [
           { content: 'Test entry content', coordinates: undefined }
         ],
-        coordinates: []
+        coordinates: [],
+        contentHash: 'testhash'
       });
     });
+    it('should parse leading times and sort entries chronologically', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+
+      const body = '- 14:30 - standup went long\n- [08:15] coffee with Ana\n- notes from the coffee\n- 9:45pm reading before bed';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockReturnValue({ frontmatter: {}, body });
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+
+      MockDateUtils.parseDateFromFilename.mockReturnValueOnce(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValueOnce(true);
+      MockDateUtils.generateFilename.mockReturnValueOnce('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValueOnce('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].entries).toEqual([
+        { content: 'coffee with Ana', time: '08:15', coordinates: undefined },
+        { content: 'notes from the coffee', coordinates: undefined },
+        { content: 'standup went long', time: '14:30', coordinates: undefined },
+        { content: 'reading before bed', time: '21:45', coordinates: undefined }
+      ]);
+    });
+  });
+
+  describe('source change detection', () => {
+    const setupExistingJournal = (storedHash: string | undefined) => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue('- Test entry content');
+      MockFileUtils.generateContentHash.mockReturnValue('newhash');
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({
+        frontmatter: storedHash ? { source_hash: storedHash } : {},
+        body: '- Test entry content'
+      }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(true);
+      mockVault.getAbstractFileByPath.mockReturnValue(new TFile());
+
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+    };
+
+    it('should skip existing journals when source changes are ignored', async () => {
+      setupExistingJournal('oldhash');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(0);
+      expect(MockFileUtils.readFile).not.toHaveBeenCalled();
+    });
+
+    it('should report notes whose hash no longer matches the journal', async () => {
+      processor.updateSettings({ ...mockSettings, sourceChangeAction: 'regenerate' });
+      setupExistingJournal('oldhash');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].sourceChanged).toBe(true);
+      expect(result[0].contentHash).toBe('newhash');
+    });
+
+    it('should skip notes whose hash matches the journal', async () => {
+      processor.updateSettings({ ...mockSettings, sourceChangeAction: 'prompt' });
+      setupExistingJournal('newhash');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should not report journals written before hashes were recorded', async () => {
+      processor.updateSettings({ ...mockSettings, sourceChangeAction: 'regenerate' });
+      setupExistingJournal(undefined);
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('frontmatter overrides', () => {
+    const setupNote = (frontmatter: Record<string, any>) => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue('- Test entry content');
+      MockFileUtils.generateContentHash.mockReturnValue('hash');
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter, body: '- Test entry content' }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+    };
+
+    it('should skip notes with journal: skip and record them in the ledger', async () => {
+      const ledger = new ProcessingLedger();
+      processor = new NoteProcessor(mockApp as any, mockSettings, ledger);
+      setupNote({ journal: 'skip' });
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(0);
+      expect(ledger.get('2025-09-01')?.status).toBe('skipped-by-rule');
+      expect(ledger.get('2025-09-01')?.lastError).toBe('journal: skip');
+    });
+
+    it('should read language, provider, model and prompt overrides', async () => {
+      setupNote({
+        'journal-language': 'Spanish',
+        'journal-provider': 'Ollama',
+        'journal-model': 'llama3',
+        'journal-prompt': 'Keep it short'
+      });
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].overrides).toEqual({
+        language: 'Spanish',
+        provider: 'ollama',
+        model: 'llama3',
+        prompt: 'Keep it short'
+      });
+    });
+
+    it('should ignore unknown providers and unrelated frontmatter', async () => {
+      setupNote({ 'journal-provider': 'claude', tags: 'daily' });
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].overrides).toBeUndefined();
+    });
+  });
+
+  describe('wikilinks', () => {
+    afterEach(() => {
+      delete (mockApp as any).metadataCache;
+    });
+
+    it('should replace links with resolved note names and keep them on the entry', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+      const body = '- Lunch with [[ana]] ![[lunch.jpg]]';
+
+      (mockApp as any).metadataCache = {
+        getFileCache: jest.fn(() => null),
+        getFirstLinkpathDest: jest.fn(() => ({ basename: 'Ana Pérez' }))
+      };
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect((mockApp as any).metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith('ana', 'Daily Notes/2025-09-01.md');
+      expect(result[0].entries[0]).toEqual({
+        content: 'Lunch with Ana Pérez',
+        coordinates: undefined,
+        links: [{ name: 'Ana Pérez', markup: '[[ana|Ana Pérez]]' }],
+        attachments: ['lunch.jpg']
+      });
+    });
+  });
+
+  describe('attachments', () => {
+    it('should attach embeds on their own line to the entry above', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+      const body = '- ![[early.jpg]]\n- Walked to the harbor\n- ![[IMG_1234.jpg]]\n- Dinner with friends';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries.map(entry => entry.content)).toEqual(['Walked to the harbor', 'Dinner with friends']);
+      expect(result[0].entries[0].attachments).toEqual(['early.jpg', 'IMG_1234.jpg']);
+      expect(result[0].entries[1].attachments).toBeUndefined();
+    });
+  });
+
+  describe('tasks', () => {
+    const body = '- Walked to the harbor\n- [x] Ship the release\n- [ ] Call the plumber\n- [/] Write the report\n- [-] Trip to Porto';
+
+    beforeEach(() => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+    });
+
+    it('should mark completed tasks and leave open tasks out by default', async () => {
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries.map(entry => entry.content)).toEqual(['Walked to the harbor', 'Ship the release']);
+      expect(result[0].entries.map(entry => entry.task)).toEqual([undefined, 'done']);
+    });
+
+    it('should keep open tasks when they are included', async () => {
+      processor.updateSettings({ ...mockSettings, includeOpenTasks: true });
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries.map(entry => entry.task)).toEqual([undefined, 'done', 'open', 'in-progress']);
+      expect(result[0].entries[2].content).toBe('Call the plumber');
+    });
+
+    it('should keep completed tasks as written, including ones nested under other bullets', async () => {
+      const body = '- [x] 09:00 Ship the [[Release|release]]\n- Errands\n  - [x] Post office\n  - [ ] Bank';
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries.map(entry => entry.completedTasks)).toEqual([
+        ['09:00 Ship the [[Release|release]]'],
+        ['Post office']
+      ]);
+    });
+  });
+
+  describe('nested entries', () => {
+    it('should keep child bullets and short items as part of the day', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+      const body = '- 09:00 Team meeting about the\nlaunch plan\n  - roadmap [[Q3]]\n    - moved to May\n  - [ ] send notes\n  - [x] book room\n- Gym';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries).toEqual([
+        {
+          content: 'Team meeting about the launch plan\n  - roadmap Q3\n    - moved to May\n  - [x] book room',
+          time: '09:00',
+          coordinates: undefined,
+          links: [{ name: 'Q3', markup: '[[Q3]]' }],
+          completedTasks: ['book room']
+        },
+        { content: 'Gym', coordinates: undefined }
+      ]);
+    });
+
+    it('should not join lines across a heading', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+      const body = '## Log\n- Gym\n## Notes\nStandup notes were long';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries.map(entry => entry.content)).toEqual(['Gym', 'Standup notes were long']);
+    });
+
+    it('should remove both kinds of numbering from numbered list items', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+      const body = '1. Gym\n2) Read a chapter\n  1) the one about tides';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result[0].entries.map(entry => entry.content)).toEqual(['Gym', 'Read a chapter\n  - the one about tides']);
+    });
+  });
+
+  describe('voice memos', () => {
+    const noteFile = new TFile();
+    noteFile.name = '2025-09-01.md';
+    noteFile.path = 'Daily Notes/2025-09-01.md';
+    const memo = new TFile();
+    memo.name = 'memo.m4a';
+    memo.path = 'Attachments/memo.m4a';
+    memo.stat = { mtime: 0, ctime: 0, size: 100 };
+    const transcript = new TFile();
+    transcript.path = 'Attachments/memo.transcript.txt';
+
+    beforeEach(() => {
+      const body = '- ![[memo.m4a]]';
+      (mockApp as any).metadataCache = { getFirstLinkpathDest: jest.fn(() => memo), getFileCache: jest.fn(() => null) };
+      global.fetch = jest.fn();
+      processor.updateSettings({ ...mockSettings, transcribeAudio: true });
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([noteFile]);
+      MockFileUtils.readFile.mockResolvedValue(body);
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+      mockVault.getAbstractFileByPath.mockImplementation((path: string) =>
+        path === noteFile.path ? noteFile : path === transcript.path ? transcript : null
+      );
+      mockVault.read.mockResolvedValue('Walked home in the rain');
+    });
+
+    afterEach(() => {
+      delete (mockApp as any).metadataCache;
+    });
+
+    it('should list voice memos without transcribing them while finding notes', async () => {
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].voiceMemos).toEqual(['Attachments/memo.m4a']);
+      expect(mockVault.read).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should turn voice memos into entries when the note is processed', async () => {
+      const [dailyNote] = await processor.findUnprocessedDailyNotes();
+
+      const transcribed = await processor.transcribeVoiceMemos(dailyNote);
+
+      expect(transcribed.entries.map(entry => entry.content)).toEqual(['Walked home in the rain']);
+      expect(transcribed.voiceMemos).toBeUndefined();
+    });
+  });
+
+  describe('quiet period', () => {
+    const setupNote = (minutesSinceEdit: number) => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+      mockFile.stat = { mtime: Date.now() - minutesSinceEdit * 60 * 1000, ctime: 0, size: 100 };
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue('- Test entry content');
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body: '- Test entry content' }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+    };
+
+    it('should wait for notes edited within the quiet period', async () => {
+      processor.updateSettings({ ...mockSettings, quietPeriodMinutes: 30 });
+      setupNote(10);
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should process notes once the quiet period has passed', async () => {
+      processor.updateSettings({ ...mockSettings, quietPeriodMinutes: 30 });
+      setupNote(45);
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(1);
+    });
+
+    it('should pass the day end time to the date check', async () => {
+      processor.updateSettings({ ...mockSettings, dayEndsAt: '04:00' });
+      setupNote(600);
+
+      await processor.findUnprocessedDailyNotes();
+
+      expect(MockDateUtils.isBeforeToday).toHaveBeenCalledWith(expect.any(Date), '04:00', undefined);
+    });
+  });
+
+  describe('queued notes', () => {
+    const setupQueuedNote = (path: string, dayIsOver: boolean) => {
+      const mockFile = new TFile();
+      mockFile.name = path.split('/').pop() as string;
+      mockFile.path = path;
+      mockFile.stat = { mtime: 0, ctime: 0, size: 100 };
+
+      mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+      MockFileUtils.readFile.mockResolvedValue('- Test entry content');
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({ frontmatter: {}, body: '- Test entry content' }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockFileUtils.fileExists.mockReturnValue(false);
+
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValue(dayIsOver);
+      MockDateUtils.generateFilename.mockReturnValue('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValue('2025-09-01');
+    };
+
+    it('should recognize daily notes in the source folder', () => {
+      MockDateUtils.parseDateFromFilename.mockReturnValue(new Date('2025-09-01'));
+
+      expect(processor.isDailyNotePath('Daily Notes/2025-09-01.md')).toBe(true);
+      expect(processor.isDailyNotePath('Daily Notes/2025/2025-09-01.md')).toBe(true);
+      expect(processor.isDailyNotePath('Journal/2025-09-01.md')).toBe(false);
+      expect(processor.isDailyNotePath('Daily Notes/2025-09-01.png')).toBe(false);
+    });
+
+    it('should ignore notes without a date in their name', () => {
+      MockDateUtils.parseDateFromFilename.mockReturnValue(null);
+
+      expect(processor.isDailyNotePath('Daily Notes/Ideas.md')).toBe(false);
+    });
+
+    it('should parse note dates strictly', () => {
+      MockDateUtils.parseDateFromFilename.mockReturnValue(null);
+
+      processor.isDailyNotePath('Daily Notes/Meeting notes 2024.md');
+
+      expect(MockDateUtils.parseDateFromFilename).toHaveBeenCalledWith('Daily Notes/Meeting notes 2024.md', mockSettings.dateFormat, true);
+    });
+
+    it('should return queued notes that are ready', async () => {
+      setupQueuedNote('Daily Notes/2025-09-01.md', true);
+
+      const result = await processor.checkQueuedNotes(['Daily Notes/2025-09-01.md']);
+
+      expect(result.ready).toHaveLength(1);
+      expect(result.ready[0].file).toBe('Daily Notes/2025-09-01.md');
+      expect(result.waiting).toEqual([]);
+    });
+
+    it('should keep notes whose day is not over waiting', async () => {
+      setupQueuedNote('Daily Notes/2025-09-01.md', false);
+
+      const result = await processor.checkQueuedNotes(['Daily Notes/2025-09-01.md']);
+
+      expect(result.ready).toEqual([]);
+      expect(result.waiting).toEqual(['Daily Notes/2025-09-01.md']);
+    });
+
+    it('should drop queued notes that no longer exist', async () => {
+      mockVault.getAbstractFileByPath.mockReturnValue(null);
+
+      const result = await processor.checkQueuedNotes(['Daily Notes/2025-09-01.md']);
+
+      expect(result).toEqual({ ready: [], waiting: [] });
+    });
+  });
+
+  describe('findDailyNotesInRange', () => {
+    const setupNotes = (dates: string[], journalDates: string[], storedHash?: string) => {
+      const files = dates.map(date => {
+        const file = new TFile();
+        file.name = `${date}.md`;
+        file.path = `Daily Notes/${date}.md`;
+        return file;
+      });
+
+      MockFileUtils.getFilesInFolder.mockReturnValue(files);
+      MockFileUtils.readFile.mockResolvedValue('- Test entry content');
+      MockFileUtils.generateContentHash.mockReturnValue('newhash');
+      MockFileUtils.parseFrontmatter.mockImplementation(() => ({
+        frontmatter: storedHash ? { source_hash: storedHash } : {},
+        body: '- Test entry content'
+      }));
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      mockVault.getAbstractFileByPath.mockReturnValue(new TFile());
+
+      // Dates round-trip through the mocked DateUtils as plain strings
+      MockDateUtils.parseDateFromFilename.mockImplementation(path => path.match(/\d{4}-\d{2}-\d{2}/)![0] as any);
+      MockDateUtils.formatDate.mockImplementation(date => date as any);
+      MockDateUtils.isBeforeToday.mockReturnValue(true);
+      MockDateUtils.generateFilename.mockImplementation(date => `Journal-${date}.md`);
+      MockFileUtils.fileExists.mockImplementation((app, path) =>
+        journalDates.some(date => path === `Journal/Journal-${date}.md`)
+      );
+    };
+
+    it('should only return notes within the range, oldest first', async () => {
+      setupNotes(['2025-09-05', '2025-08-31', '2025-09-01', '2025-09-03'], []);
+
+      const result = await processor.findDailyNotesInRange('2025-09-01', '2025-09-03', 'skip-existing');
+
+      expect(result.map(c => c.date)).toEqual(['2025-09-01', '2025-09-03']);
+      expect(result.every(c => c.action === 'create' && c.dailyNote)).toBe(true);
+    });
+
+    it('should skip existing journals when keeping them', async () => {
+      setupNotes(['2025-09-01', '2025-09-02'], ['2025-09-01']);
+
+      const result = await processor.findDailyNotesInRange('2025-09-01', '2025-09-02', 'skip-existing');
+
+      expect(result[0]).toEqual(expect.objectContaining({ date: '2025-09-01', action: 'skip', reason: 'journal exists' }));
+      expect(result[1]).toEqual(expect.objectContaining({ date: '2025-09-02', action: 'create' }));
+    });
+
+    it('should only regenerate changed notes with the overwrite-changed policy', async () => {
+      setupNotes(['2025-09-01'], ['2025-09-01'], 'oldhash');
+
+      const changed = await processor.findDailyNotesInRange('2025-09-01', '2025-09-01', 'overwrite-changed');
+      expect(changed[0].action).toBe('overwrite');
+
+      setupNotes(['2025-09-01'], ['2025-09-01'], 'newhash');
+
+      const unchanged = await processor.findDailyNotesInRange('2025-09-01', '2025-09-01', 'overwrite-changed');
+      expect(unchanged[0]).toEqual(expect.objectContaining({ action: 'skip', reason: 'journal is up to date' }));
+    });
+
+    it('should regenerate every existing journal with the overwrite-all policy', async () => {
+      setupNotes(['2025-09-01'], ['2025-09-01'], 'newhash');
+
+      const result = await processor.findDailyNotesInRange('2025-09-01', '2025-09-01', 'overwrite-all');
+
+      expect(result[0].action).toBe('overwrite');
+      expect(result[0].dailyNote?.file).toBe('Daily Notes/2025-09-01.md');
+    });
+
+    it('should skip days that are not over yet', async () => {
+      setupNotes(['2025-09-01'], []);
+      MockDateUtils.isBeforeToday.mockReturnValue(false);
+
+      const result = await processor.findDailyNotesInRange('2025-09-01', '2025-09-01', 'overwrite-all');
+
+      expect(result[0]).toEqual(expect.objectContaining({ action: 'skip', reason: 'day is not over yet' }));
+    });
+  });
+
+  describe('findSelectedNotes', () => {
+    const setupNote = (date: string, hasJournal: boolean, dayOver: boolean): void => {
+      const file = new TFile();
+      file.name = `${date}.md`;
+      file.path = `Daily Notes/${date}.md`;
+
+      mockVault.getAbstractFileByPath.mockImplementation((path: string) => path.startsWith('Daily Notes/') ? file : null);
+      MockFileUtils.readFile.mockResolvedValue('- Test entry content');
+      MockFileUtils.parseFrontmatter.mockReturnValue({ frontmatter: {}, body: '- Test entry content' });
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockCoordinateParser.removeCoordinatesFromContent.mockImplementation(content => content);
+      MockDateUtils.parseDateFromFilename.mockImplementation(path => (path.match(/\d{4}-\d{2}-\d{2}/)?.[0] || null) as any);
+      MockDateUtils.formatDate.mockImplementation(date => date as any);
+      MockDateUtils.isBeforeToday.mockReturnValue(dayOver);
+      MockDateUtils.generateFilename.mockImplementation(date => `Journal-${date}.md`);
+      MockFileUtils.fileExists.mockReturnValue(hasJournal);
+    };
+
+    it('should include today\'s note and mark it as in progress', async () => {
+      setupNote('2025-09-05', false, false);
+
+      const [candidate] = await processor.findSelectedNotes(['Daily Notes/2025-09-05.md']);
+
+      expect(candidate).toEqual(expect.objectContaining({ date: '2025-09-05', action: 'create', inProgress: true }));
+      expect(candidate.dailyNote?.entries[0].content).toBe('Test entry content');
+    });
+
+    it('should overwrite a journal that already exists', async () => {
+      setupNote('2025-09-01', true, true);
+
+      const [candidate] = await processor.findSelectedNotes(['Daily Notes/2025-09-01.md']);
+
+      expect(candidate).toEqual(expect.objectContaining({ action: 'overwrite', reason: 'journal exists', inProgress: false }));
+    });
+
+    it('should skip files that are not daily notes', async () => {
+      setupNote('2025-09-01', false, true);
+
+      const candidates = await processor.findSelectedNotes(['Projects/Plan.md']);
+
+      expect(candidates[0]).toEqual(expect.objectContaining({ action: 'skip', reason: 'not a daily note' }));
+    });
   });
 
   describe('findMostRecentDailyNote', () => {
@@ -334,26 +975,57 @@ describe('NoteProcessor', () => {
   });
 
   describe('getProcessingStats', () => {
-    it('should return processing statistics', () => {
-      // Since we no longer track processed notes, stats should be 0
-      processor.updateSettings(mockSettings);
+    it('should return statistics from the processing ledger', async () => {
+      const ledger = new ProcessingLedger();
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordSuccess('2025-09-01');
+      await ledger.recordAttempt('2025-09-02', 'Daily Notes/2025-09-02.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-02', 'Rate limit');
+      processor = new NoteProcessor(mockApp as any, mockSettings, ledger);
 
       const result = processor.getProcessingStats();
 
-      expect(result.totalProcessed).toBe(0);
-      expect(result.lastProcessingTime).toBeUndefined(); // Not implemented yet
+      expect(result.totalProcessed).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.lastProcessingTime).toBeInstanceOf(Date);
     });
 
     it('should return zero when no notes processed', () => {
       const result = processor.getProcessingStats();
 
       expect(result.totalProcessed).toBe(0);
+      expect(result.lastProcessingTime).toBeUndefined();
+    });
+
+    it('should record notes without entries as skipped', async () => {
+      const mockFile = new TFile();
+      mockFile.name = '2025-09-01.md';
+      mockFile.path = 'Daily Notes/2025-09-01.md';
+
+      MockFileUtils.getFilesInFolder.mockReturnValue([mockFile]);
+      MockFileUtils.readFile.mockResolvedValue('');
+      MockFileUtils.parseFrontmatter.mockReturnValue({ frontmatter: {}, body: '' });
+      MockCoordinateParser.extractCoordinates.mockReturnValue([]);
+      MockFileUtils.fileExists.mockReturnValue(false);
+      MockDateUtils.parseDateFromFilename.mockReturnValueOnce(new Date('2025-09-01'));
+      MockDateUtils.isBeforeToday.mockReturnValueOnce(true);
+      MockDateUtils.generateFilename.mockReturnValueOnce('Journal-2025-09-01.md');
+      MockDateUtils.formatDate.mockReturnValueOnce('2025-09-01');
+
+      const result = await processor.findUnprocessedDailyNotes();
+
+      expect(result).toHaveLength(0);
+      expect(processor.getProcessingStats().skipped).toBe(1);
     });
   });
 
   describe('resetProcessingHistory', () => {
-    it('should reset processing history (now a no-op)', () => {      
-      processor.resetProcessingHistory();
+    it('should clear the processing ledger', async () => {
+      const ledger = new ProcessingLedger();
+      await ledger.recordSuccess('2025-09-01');
+      processor = new NoteProcessor(mockApp as any, mockSettings, ledger);
+
+      await processor.resetProcessingHistory();
 
       const stats = processor.getProcessingStats();
       expect(stats.totalProcessed).toBe(0);
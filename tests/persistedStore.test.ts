@@ -0,0 +1,63 @@
+import { PersistedStore } from '../src/utils/persistedStore';
+import { SerialQueue } from '../src/utils/concurrency';
+import { logger } from '../src/utils/logger';
+
+class NoteStore extends PersistedStore<string> {
+  async set(date: string, value: string): Promise<void> {
+    this.records[date] = value;
+    await this.save();
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('PersistedStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write saves of stores sharing a saver one at a time with the latest data', async () => {
+    // Like JournalPlugin.savePluginData: one queue, the whole file written each time
+    const queue = new SerialQueue();
+    const written: Record<string, Record<string, string>>[] = [];
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const saveAll = () => queue.run(async () => {
+      inFlight++;
+      mostInFlight = Math.max(mostInFlight, inFlight);
+      const snapshot = { ledger: ledger.toJSON(), drafts: drafts.toJSON() };
+      await delay(5);
+      written.push(snapshot);
+      inFlight--;
+    });
+    const ledger: NoteStore = new NoteStore('ledger', {}, saveAll);
+    const drafts: NoteStore = new NoteStore('drafts', {}, saveAll);
+
+    await Promise.all([ledger.set('2025-09-01', 'done'), drafts.set('2025-09-02', 'draft')]);
+
+    expect(mostInFlight).toBe(1);
+    expect(written[written.length - 1]).toEqual({
+      ledger: { '2025-09-01': 'done' },
+      drafts: { '2025-09-02': 'draft' }
+    });
+  });
+
+  it('should log a failed save with the store name instead of throwing', async () => {
+    const errorSpy = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+    const store = new NoteStore('notes', {}, async () => {
+      throw new Error('disk full');
+    });
+
+    await expect(store.set('2025-09-01', 'a')).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith('Failed to save notes:', expect.any(Error));
+  });
+
+  it('should start from a copy of the loaded records', () => {
+    const loaded = { '2025-09-01': 'a' };
+    const store = new NoteStore('notes', loaded);
+
+    loaded['2025-09-01'] = 'changed';
+
+    expect(store.toJSON()).toEqual({ '2025-09-01': 'a' });
+  });
+});
@@ -0,0 +1,221 @@
+import { ProcessingLedger } from '../src/services/processingLedger';
+
+describe('ProcessingLedger', () => {
+  let ledger: ProcessingLedger;
+  let persist: jest.Mock;
+
+  beforeEach(() => {
+    persist = jest.fn().mockResolvedValue(undefined);
+    ledger = new ProcessingLedger({}, persist);
+  });
+
+  describe('recordAttempt', () => {
+    it('should create a pending record and count attempts', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'gemini', 'gemini-pro');
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'gemini', 'gemini-pro');
+
+      const record = ledger.get('2025-09-01');
+      expect(record?.status).toBe('pending');
+      expect(record?.attempts).toBe(2);
+      expect(record?.provider).toBe('gemini');
+      expect(record?.model).toBe('gemini-pro');
+      expect(record?.lastAttemptAt).toBeDefined();
+      expect(persist).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancelAttempt', () => {
+    it('should put back the record the date had before the attempt', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+      const previous = { ...ledger.get('2025-09-01')! };
+
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.cancelAttempt('2025-09-01', previous);
+
+      expect(ledger.get('2025-09-01')).toEqual(previous);
+    });
+
+    it('should remove the record of a date that had none before', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.cancelAttempt('2025-09-01');
+
+      expect(ledger.get('2025-09-01')).toBeUndefined();
+      expect(ledger.isDue('2025-09-01', 3)).toBe(true);
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should mark the date as done and clear the last error', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+      await ledger.recordSuccess('2025-09-01');
+
+      const record = ledger.get('2025-09-01');
+      expect(record?.status).toBe('done');
+      expect(record?.lastError).toBeUndefined();
+      expect(record?.completedAt).toBeDefined();
+    });
+
+    it('should not give up on a note after one failure following several successes', async () => {
+      for (let i = 0; i < 3; i++) {
+        await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+        await ledger.recordSuccess('2025-09-01');
+      }
+
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+
+      expect(ledger.get('2025-09-01')?.attempts).toBe(1);
+      expect(ledger.hasGivenUp('2025-09-01', 3)).toBe(false);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should keep the last error', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'Content was blocked by Gemini safety filters');
+
+      expect(ledger.get('2025-09-01')?.status).toBe('failed');
+      expect(ledger.get('2025-09-01')?.lastError).toBe('Content was blocked by Gemini safety filters');
+    });
+  });
+
+  describe('retry backoff', () => {
+    it('should double the delay per attempt and cap it at a day', () => {
+      expect(ProcessingLedger.getRetryDelay(1)).toBe(15 * 60 * 1000);
+      expect(ProcessingLedger.getRetryDelay(2)).toBe(30 * 60 * 1000);
+      expect(ProcessingLedger.getRetryDelay(3)).toBe(60 * 60 * 1000);
+      expect(ProcessingLedger.getRetryDelay(20)).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('should not retry a failed date before its next retry time', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+
+      const nextRetryAt = new Date(ledger.get('2025-09-01')!.nextRetryAt!);
+
+      expect(ledger.isDue('2025-09-01', 5)).toBe(false);
+      expect(ledger.isDue('2025-09-01', 5, new Date(nextRetryAt.getTime() + 1))).toBe(true);
+    });
+
+    it('should treat unknown and completed dates as due', async () => {
+      await ledger.recordSuccess('2025-09-02');
+
+      expect(ledger.isDue('2025-09-01', 5)).toBe(true);
+      expect(ledger.isDue('2025-09-02', 5)).toBe(true);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      for (let i = 0; i < 3; i++) {
+        await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+        await ledger.recordFailure('2025-09-01', 'timeout');
+      }
+
+      const farFuture = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      expect(ledger.hasGivenUp('2025-09-01', 3)).toBe(true);
+      expect(ledger.isDue('2025-09-01', 3, farFuture)).toBe(false);
+      expect(ledger.isDue('2025-09-01', 5, farFuture)).toBe(true);
+    });
+
+    it('should make a given-up date eligible again after resetting attempts', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+      await ledger.resetAttempts('2025-09-01');
+
+      expect(ledger.get('2025-09-01')?.attempts).toBe(0);
+      expect(ledger.isDue('2025-09-01', 1)).toBe(true);
+    });
+
+    it('should never retry dismissed dates automatically', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+      await ledger.dismiss('2025-09-01');
+
+      expect(ledger.get('2025-09-01')?.status).toBe('dismissed');
+      expect(ledger.isDue('2025-09-01', 5, new Date(Date.now() + 48 * 60 * 60 * 1000))).toBe(false);
+      expect(ledger.getStats().skipped).toBe(1);
+    });
+  });
+
+  describe('recordDraft', () => {
+    it('should hold a date waiting for review back from automatic runs', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordDraft('2025-09-01');
+
+      expect(ledger.get('2025-09-01')?.status).toBe('awaiting-review');
+      expect(ledger.get('2025-09-01')?.attempts).toBe(0);
+      expect(ledger.isDue('2025-09-01', 5)).toBe(false);
+      expect(ledger.getStats().awaitingReview).toBe(1);
+    });
+
+    it('should note why a discarded draft was dismissed', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordDraft('2025-09-01');
+      await ledger.dismiss('2025-09-01', 'Draft discarded');
+
+      expect(ledger.get('2025-09-01')?.status).toBe('dismissed');
+      expect(ledger.get('2025-09-01')?.lastError).toBe('Draft discarded');
+    });
+  });
+
+  describe('recordSkipped', () => {
+    it('should not persist unchanged skips again', async () => {
+      await ledger.recordSkipped('2025-09-01', 'Daily Notes/2025-09-01.md', 'skipped-empty');
+      await ledger.recordSkipped('2025-09-01', 'Daily Notes/2025-09-01.md', 'skipped-empty');
+
+      expect(ledger.get('2025-09-01')?.status).toBe('skipped-empty');
+      expect(persist).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should summarize records by status', async () => {
+      await ledger.recordSuccess('2025-09-01');
+      await ledger.recordSuccess('2025-09-02');
+      await ledger.recordFailure('2025-09-03', 'error');
+      await ledger.recordAttempt('2025-09-04', 'Daily Notes/2025-09-04.md', 'ollama', 'llama2');
+      await ledger.recordSkipped('2025-09-05', 'Daily Notes/2025-09-05.md', 'skipped-by-rule', 'journal: skip');
+
+      const stats = ledger.getStats();
+      expect(stats.totalProcessed).toBe(2);
+      expect(stats.failed).toBe(1);
+      expect(stats.pending).toBe(1);
+      expect(stats.skipped).toBe(1);
+      expect(stats.lastProcessingTime).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('getAll', () => {
+    it('should return records with the most recent date first', async () => {
+      await ledger.recordSuccess('2025-09-01');
+      await ledger.recordSuccess('2025-09-03');
+      await ledger.recordSuccess('2025-09-02');
+
+      expect(ledger.getAll().map(r => r.date)).toEqual(['2025-09-03', '2025-09-02', '2025-09-01']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore records from plugin data', async () => {
+      await ledger.recordSuccess('2025-09-01');
+
+      const restored = new ProcessingLedger(JSON.parse(JSON.stringify(ledger.toJSON())));
+
+      expect(restored.get('2025-09-01')?.status).toBe('done');
+    });
+
+    it('should clear all records on reset', async () => {
+      await ledger.recordSuccess('2025-09-01');
+      await ledger.reset();
+
+      expect(ledger.getAll()).toEqual([]);
+    });
+
+    it('should not throw when saving fails', async () => {
+      persist.mockRejectedValue(new Error('disk full'));
+
+      await expect(ledger.recordSuccess('2025-09-01')).resolves.toBeUndefined();
+    });
+  });
+});
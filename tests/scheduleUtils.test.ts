@@ -0,0 +1,81 @@
+import { ScheduleUtils } from '../src/utils/scheduleUtils';
+import { DEFAULT_SETTINGS, JournalPluginSettings } from '../src/models/types';
+
+describe('ScheduleUtils', () => {
+  const schedule = (overrides: Partial<JournalPluginSettings>): JournalPluginSettings => ({
+    ...DEFAULT_SETTINGS,
+    homeTimeZone: 'UTC',
+    ...overrides
+  });
+
+  describe('parseTimeList', () => {
+    it('should normalize, sort and de-duplicate times', () => {
+      expect(ScheduleUtils.parseTimeList('23:30, 7:00, 07:00')).toEqual(['07:00', '23:30']);
+    });
+
+    it('should drop invalid times', () => {
+      expect(ScheduleUtils.parseTimeList('25:00, noon, 12:5, 12:05')).toEqual(['12:05']);
+      expect(ScheduleUtils.parseTimeList('')).toEqual([]);
+    });
+  });
+
+  describe('getNextRun', () => {
+    it('should return a later run time today', () => {
+      const now = new Date('2024-02-14T20:00:00Z'); // Wednesday
+
+      const next = ScheduleUtils.getNextRun(schedule({ scheduleMode: 'daily', scheduleTimes: ['07:00', '23:30'] }), now);
+
+      expect(next?.toISOString()).toBe('2024-02-14T23:30:00.000Z');
+    });
+
+    it('should move to tomorrow once today\'s times have passed', () => {
+      const now = new Date('2024-02-14T23:30:00Z');
+
+      const next = ScheduleUtils.getNextRun(schedule({ scheduleMode: 'daily', scheduleTimes: ['07:00', '23:30'] }), now);
+
+      expect(next?.toISOString()).toBe('2024-02-15T07:00:00.000Z');
+    });
+
+    it('should only run on the selected weekdays', () => {
+      const now = new Date('2024-02-16T23:45:00Z'); // Friday, after the run
+
+      const next = ScheduleUtils.getNextRun(schedule({
+        scheduleMode: 'weekdays',
+        scheduleTimes: ['23:30'],
+        scheduleWeekdays: [1, 5] // Monday, Friday
+      }), now);
+
+      expect(next?.toISOString()).toBe('2024-02-19T23:30:00.000Z');
+    });
+
+    it('should use the home timezone', () => {
+      const now = new Date('2024-02-14T12:00:00Z'); // 21:00 in Tokyo
+
+      const next = ScheduleUtils.getNextRun(schedule({
+        scheduleMode: 'daily',
+        scheduleTimes: ['23:30'],
+        homeTimeZone: 'Asia/Tokyo'
+      }), now);
+
+      expect(next?.toISOString()).toBe('2024-02-14T14:30:00.000Z');
+    });
+
+    it('should return null for modes without run times', () => {
+      const now = new Date('2024-02-14T12:00:00Z');
+
+      expect(ScheduleUtils.getNextRun(schedule({ scheduleMode: 'interval' }), now)).toBeNull();
+      expect(ScheduleUtils.getNextRun(schedule({ scheduleMode: 'startup' }), now)).toBeNull();
+      expect(ScheduleUtils.getNextRun(schedule({ scheduleMode: 'weekdays', scheduleWeekdays: [] }), now)).toBeNull();
+      expect(ScheduleUtils.getNextRun(schedule({ scheduleMode: 'daily', scheduleTimes: [] }), now)).toBeNull();
+    });
+  });
+
+  describe('describe', () => {
+    it('should summarize each mode', () => {
+      expect(ScheduleUtils.describe(schedule({ scheduleMode: 'daily', scheduleTimes: ['23:30'] }))).toBe('Daily at 23:30');
+      expect(ScheduleUtils.describe(schedule({ scheduleMode: 'weekdays', scheduleTimes: ['23:30'], scheduleWeekdays: [5, 1] }))).toBe('Mon, Fri at 23:30');
+      expect(ScheduleUtils.describe(schedule({ scheduleMode: 'startup' }))).toBe('On startup only');
+      expect(ScheduleUtils.describe(schedule({ scheduleMode: 'interval', checkFrequency: 60 }))).toBe('As notes change, with a full check every 60 minutes');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { Scheduler } from '../src/services/scheduler';
+import { ProcessingLedger } from '../src/services/processingLedger';
+import { AIServiceFactory } from '../src/services/ai/aiServiceFactory';
+import { JournalPluginSettings, DEFAULT_SETTINGS, DailyNote, AIProvider } from '../src/models/types';
+
+describe('Scheduler', () => {
+  const mockApp = {
+    vault: {
+      getAbstractFileByPath: jest.fn(),
+      readBinary: jest.fn()
+    },
+    metadataCache: {
+      getFirstLinkpathDest: jest.fn()
+    }
+  };
+
+  const mockNoteProcessor = {
+    updateSettings: jest.fn(),
+    findUnprocessedDailyNotes: jest.fn()
+  };
+
+  const mockJournalManager = {
+    createJournalEntry: jest.fn(),
+    updateSettings: jest.fn()
+  };
+
+  let settings: JournalPluginSettings;
+  let ledger: ProcessingLedger;
+  let scheduler: Scheduler;
+
+  const dailyNote = (date: string, overrides?: DailyNote['overrides']): DailyNote => ({
+    file: `Daily Notes/${date}.md`,
+    date,
+    entries: [{ content: 'Walked to work', time: '08:30' }],
+    coordinates: [],
+    overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    settings = {
+      ...DEFAULT_SETTINGS,
+      aiProvider: 'openai',
+      aiConfig: { apiKey: 'sk-test', endpoint: 'https://api.openai.com/v1', model: 'gpt-4' },
+      providerCredentials: { openai: { apiKey: 'sk-test' } },
+      maxRetryAttempts: 1
+    };
+    ledger = new ProcessingLedger();
+    scheduler = new Scheduler(mockApp as any, settings, mockNoteProcessor as any, mockJournalManager as any, ledger);
+  });
+
+  describe('per-note providers', () => {
+    it('should count a failed attempt when the note\'s provider has no credentials', async () => {
+      const result = await scheduler.processSelectedNotes([dailyNote('2025-09-01', { provider: 'gemini' })]);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('journal-provider gemini is not configured');
+      expect(ledger.get('2025-09-01')).toEqual(expect.objectContaining({ status: 'failed', attempts: 1, provider: 'gemini' }));
+      expect(ledger.hasGivenUp('2025-09-01', settings.maxRetryAttempts)).toBe(true);
+      expect(mockJournalManager.createJournalEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelling', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not count an attempt that was cancelled', async () => {
+      await ledger.recordAttempt('2025-09-01', 'Daily Notes/2025-09-01.md', 'openai', 'gpt-4');
+      await ledger.recordFailure('2025-09-01', 'timeout');
+      const previous = { ...ledger.get('2025-09-01')! };
+
+      const processContent = jest.fn((content: string, prompt: string, language?: string, signal?: AbortSignal) =>
+        new Promise((resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('Request cancelled')));
+        })
+      );
+      jest.spyOn(AIServiceFactory, 'createService').mockImplementation(() => ({
+        validateConfig: () => true,
+        processContent
+      }) as any);
+
+      const running = scheduler.processSelectedNotes([dailyNote('2025-09-01')]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      scheduler.cancelProcessing();
+      const result = await running;
+
+      expect(processContent).toHaveBeenCalled();
+      expect(result.cancelled).toBe(true);
+      expect(result.skipped).toEqual(['Daily Notes/2025-09-01.md']);
+      expect(ledger.get('2025-09-01')).toEqual(previous);
+    });
+  });
+
+  describe('runs', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const mockAIService = (processContent: jest.Mock) =>
+      jest.spyOn(AIServiceFactory, 'createService').mockImplementation(() => ({
+        validateConfig: () => true,
+        processContent
+      }) as any);
+
+    it('should refuse to start a run while another is in progress', async () => {
+      let finish: () => void = () => undefined;
+      mockAIService(jest.fn(() => new Promise(resolve => {
+        finish = () => resolve({ content: 'A good day.' });
+      })));
+
+      const running = scheduler.processSelectedNotes([dailyNote('2025-09-01')]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const refused = await scheduler.processNotes();
+      finish();
+
+      expect(refused).toEqual({ success: false, processed: 0, errors: ['Processing already in progress'], duration: 0 });
+      expect((await running).processed).toBe(1);
+      expect(scheduler.getStatus().isProcessing).toBe(false);
+    });
+
+    it('should report a failed run with its label', async () => {
+      mockNoteProcessor.findUnprocessedDailyNotes.mockRejectedValue(new Error('vault unavailable'));
+
+      const result = await scheduler.processNotes();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['Processing cycle failed: vault unavailable']);
+      expect(scheduler.getStatus().lastError).toBe('Processing cycle failed: vault unavailable');
+    });
+
+    it('should stop counting notes as pending once their journal is generated', async () => {
+      mockAIService(jest.fn().mockRejectedValue(new Error('timeout')));
+      mockNoteProcessor.findUnprocessedDailyNotes.mockResolvedValue([dailyNote('2025-09-01'), dailyNote('2025-09-02')]);
+      await scheduler.processNotes();
+      expect(scheduler.getStatus().pendingNotes).toBe(2);
+
+      mockAIService(jest.fn().mockResolvedValue({ content: 'A good day.' }));
+      await scheduler.processSelectedNotes([dailyNote('2025-09-01')]);
+
+      expect(scheduler.getStatus().pendingNotes).toBe(1);
+    });
+  });
+
+  describe('parallel requests', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should limit each provider to its own parallel requests', async () => {
+      settings.providerCredentials = { ...settings.providerCredentials, gemini: { apiKey: 'gemini-key' } };
+      settings.maxConcurrentRequests = { openai: 3, gemini: 1, ollama: 1 };
+      scheduler.updateSettings(settings);
+
+      const inFlight: Record<string, number> = {};
+      const mostInFlight: Record<string, number> = {};
+      jest.spyOn(AIServiceFactory, 'createService').mockImplementation((provider: AIProvider) => ({
+        validateConfig: () => true,
+        processContent: jest.fn(async () => {
+          inFlight[provider] = (inFlight[provider] || 0) + 1;
+          mostInFlight[provider] = Math.max(mostInFlight[provider] || 0, inFlight[provider]);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight[provider]--;
+          return { content: 'A good day.' };
+        })
+      }) as any);
+
+      const result = await scheduler.processSelectedNotes([
+        dailyNote('2025-09-01', { provider: 'gemini' }),
+        dailyNote('2025-09-02', { provider: 'gemini' }),
+        dailyNote('2025-09-03', { provider: 'gemini' }),
+        dailyNote('2025-09-04'),
+        dailyNote('2025-09-05'),
+        dailyNote('2025-09-06')
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.processed).toBe(6);
+      expect(mostInFlight).toEqual({ gemini: 1, openai: 3 });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { SectionParser } from '../src/utils/sectionParser';
+
+describe('SectionParser', () => {
+  const note = [
+    'Intro line before any heading',
+    '## Tasks',
+    '- [ ] buy milk',
+    '## Meetings',
+    '- 10:00 standup',
+    '### Notes',
+    '- action items from standup',
+    '## Log',
+    '- coffee with Ana',
+    '### Evening',
+    '- long walk',
+    '#### Private',
+    '- secret thought',
+    '# Next top-level',
+    '- unrelated'
+  ].join('\n');
+
+  describe('splitBySection', () => {
+    it('should keep the lines under each heading apart', () => {
+      const result = SectionParser.splitBySection('## Log\n- Gym\n## Notes\nStandup notes were long');
+
+      expect(result).toEqual([['- Gym'], ['Standup notes were long']]);
+    });
+
+    it('should leave out excluded sections', () => {
+      const result = SectionParser.splitBySection(note, ['Log'], ['Private']);
+
+      expect(result).toEqual([['- coffee with Ana'], ['- long walk']]);
+    });
+  });
+
+  describe('filterLinesBySection', () => {
+    it('should return all non-heading lines when no filters are set', () => {
+      const result = SectionParser.filterLinesBySection(note);
+
+      expect(result).toContain('Intro line before any heading');
+      expect(result).toContain('- [ ] buy milk');
+      expect(result).toContain('- unrelated');
+      expect(result.some(line => line.startsWith('#'))).toBe(false);
+    });
+
+    it('should keep only lines under included headings, including nested sections', () => {
+      const result = SectionParser.filterLinesBySection(note, ['Log']);
+
+      expect(result).toEqual(['- coffee with Ana', '- long walk', '- secret thought']);
+    });
+
+    it('should drop lines under excluded headings and their sub-headings', () => {
+      const result = SectionParser.filterLinesBySection(note, [], ['Meetings', 'Tasks']);
+
+      expect(result).not.toContain('- [ ] buy milk');
+      expect(result).not.toContain('- 10:00 standup');
+      expect(result).not.toContain('- action items from standup');
+      expect(result).toContain('Intro line before any heading');
+      expect(result).toContain('- coffee with Ana');
+    });
+
+    it('should let exclusions carve out nested sections of an included heading', () => {
+      const result = SectionParser.filterLinesBySection(note, ['Log'], ['Private']);
+
+      expect(result).toEqual(['- coffee with Ana', '- long walk']);
+    });
+
+    it('should match headings case-insensitively and ignore leading hashes', () => {
+      const result = SectionParser.filterLinesBySection(note, ['## log']);
+
+      expect(result).toContain('- coffee with Ana');
+    });
+
+    it('should not treat lines inside code fences as headings', () => {
+      const body = ['## Log', '```', '# not a heading', '```', '- after code'].join('\n');
+
+      const result = SectionParser.filterLinesBySection(body, ['Log']);
+
+      expect(result).toEqual(['```', '# not a heading', '```', '- after code']);
+    });
+
+    it('should keep tag lines that are not headings', () => {
+      const result = SectionParser.filterLinesBySection('#work finished the report');
+
+      expect(result).toEqual(['#work finished the report']);
+    });
+  });
+
+  describe('parseHeadingList', () => {
+    it('should split and trim comma-separated headings', () => {
+      expect(SectionParser.parseHeadingList(' Log, Journal ,,')).toEqual(['Log', 'Journal']);
+      expect(SectionParser.parseHeadingList('')).toEqual([]);
+    });
+  });
+});
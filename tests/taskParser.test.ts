@@ -0,0 +1,54 @@
+import { TaskParser } from '../src/utils/taskParser';
+
+describe('TaskParser', () => {
+  describe('extractTask', () => {
+    it('should recognize completed tasks', () => {
+      expect(TaskParser.extractTask('- [x] ship release')).toEqual({ status: 'done', content: 'ship release' });
+      expect(TaskParser.extractTask('  * [X] 09:30 standup')).toEqual({ status: 'done', content: '09:30 standup' });
+      expect(TaskParser.extractTask('[x] bare checkbox')).toEqual({ status: 'done', content: 'bare checkbox' });
+    });
+
+    it('should tell open, in-progress and cancelled tasks apart', () => {
+      expect(TaskParser.extractTask('- [ ] call the plumber')?.status).toBe('open');
+      expect(TaskParser.extractTask('- [>] deferred call')?.status).toBe('open');
+      expect(TaskParser.extractTask('1. [/] write the report')?.status).toBe('in-progress');
+      expect(TaskParser.extractTask('- [-] cancelled trip')?.status).toBe('cancelled');
+    });
+
+    it('should not mistake other lines for tasks', () => {
+      expect(TaskParser.extractTask('- Walked to the harbor')).toBeNull();
+      expect(TaskParser.extractTask('[14:30] Meeting')).toBeNull();
+      expect(TaskParser.extractTask('[1] footnote')).toBeNull();
+    });
+  });
+
+  describe('getCompletedTasks', () => {
+    it('should return the completed tasks of all entries as written', () => {
+      const tasks = TaskParser.getCompletedTasks([
+        { content: 'Beach day' },
+        { content: 'Reviewed the plan with Ana', task: 'done', completedTasks: ['09:00 Reviewed the plan with [[Ana Pérez|Ana]]'] },
+        { content: 'Call the plumber', task: 'open' },
+        { content: 'Errands\n  - [x] Post office', completedTasks: ['Post office'] }
+      ]);
+
+      expect(tasks).toEqual(['09:00 Reviewed the plan with [[Ana Pérez|Ana]]', 'Post office']);
+    });
+  });
+
+  describe('isLeftOut', () => {
+    it('should always leave cancelled tasks out and keep open ones only when included', () => {
+      expect(TaskParser.isLeftOut('done', false)).toBe(false);
+      expect(TaskParser.isLeftOut('open', false)).toBe(true);
+      expect(TaskParser.isLeftOut('in-progress', false)).toBe(true);
+      expect(TaskParser.isLeftOut('open', true)).toBe(false);
+      expect(TaskParser.isLeftOut('in-progress', true)).toBe(false);
+      expect(TaskParser.isLeftOut('cancelled', true)).toBe(true);
+    });
+  });
+
+  describe('renderDoneList', () => {
+    it('should render plain bullets under a heading', () => {
+      expect(TaskParser.renderDoneList(['one', 'two'])).toBe('## Done today\n\n- one\n- two');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { TimeParser } from '../src/utils/timeParser';
+
+describe('TimeParser', () => {
+
+  describe('extractLeadingTime', () => {
+    it('should extract 24h times', () => {
+      expect(TimeParser.extractLeadingTime('08:15 coffee with Ana')).toEqual({
+        time: '08:15',
+        content: 'coffee with Ana'
+      });
+      expect(TimeParser.extractLeadingTime('7:05 woke up early')).toEqual({
+        time: '07:05',
+        content: 'woke up early'
+      });
+    });
+
+    it('should strip separators after the time', () => {
+      expect(TimeParser.extractLeadingTime('14:30 - standup went long')?.content).toBe('standup went long');
+      expect(TimeParser.extractLeadingTime('14:30 | standup went long')?.content).toBe('standup went long');
+      expect(TimeParser.extractLeadingTime('14:30: standup went long')?.content).toBe('standup went long');
+    });
+
+    it('should extract bracketed times', () => {
+      expect(TimeParser.extractLeadingTime('[14:30] standup went long')).toEqual({
+        time: '14:30',
+        content: 'standup went long'
+      });
+      expect(TimeParser.extractLeadingTime('[09:41:12] dictated note')?.time).toBe('09:41');
+    });
+
+    it('should extract times with seconds', () => {
+      expect(TimeParser.extractLeadingTime('21:03:59 reading before bed')).toEqual({
+        time: '21:03',
+        content: 'reading before bed'
+      });
+    });
+
+    it('should convert 12h times with am/pm', () => {
+      expect(TimeParser.extractLeadingTime('8:15pm dinner')?.time).toBe('20:15');
+      expect(TimeParser.extractLeadingTime('8:15 AM gym')?.time).toBe('08:15');
+      expect(TimeParser.extractLeadingTime('9 p.m. movie night')?.time).toBe('21:00');
+      expect(TimeParser.extractLeadingTime('12:30am still awake')?.time).toBe('00:30');
+      expect(TimeParser.extractLeadingTime('12pm lunch')?.time).toBe('12:00');
+    });
+
+    it('should return null for lines without a leading time', () => {
+      expect(TimeParser.extractLeadingTime('Had coffee at 08:15')).toBeNull();
+      expect(TimeParser.extractLeadingTime('3 apples for breakfast')).toBeNull();
+      expect(TimeParser.extractLeadingTime('8 amazing things happened')).toBeNull();
+      expect(TimeParser.extractLeadingTime('2024 was a good year')).toBeNull();
+    });
+
+    it('should reject invalid times', () => {
+      expect(TimeParser.extractLeadingTime('25:00 impossible')).toBeNull();
+      expect(TimeParser.extractLeadingTime('10:75 impossible')).toBeNull();
+      expect(TimeParser.extractLeadingTime('14:30pm impossible')).toBeNull();
+      expect(TimeParser.extractLeadingTime('[14:30 unbalanced')).toBeNull();
+    });
+  });
+
+  describe('isValidTime', () => {
+    it('should accept 24h times and reject anything else', () => {
+      expect(TimeParser.isValidTime('04:00')).toBe(true);
+      expect(TimeParser.isValidTime('4:30')).toBe(true);
+      expect(TimeParser.isValidTime('23:59')).toBe(true);
+      expect(TimeParser.isValidTime('24:00')).toBe(false);
+      expect(TimeParser.isValidTime('4am')).toBe(false);
+      expect(TimeParser.isValidTime('')).toBe(false);
+    });
+  });
+
+  describe('toMinutes', () => {
+    it('should convert HH:mm to minutes since midnight', () => {
+      expect(TimeParser.toMinutes('00:00')).toBe(0);
+      expect(TimeParser.toMinutes('08:15')).toBe(495);
+      expect(TimeParser.toMinutes('23:59')).toBe(1439);
+    });
+  });
+
+  describe('sortChronologically', () => {
+    it('should sort timed items by time of day', () => {
+      const items = [
+        { content: 'dinner', time: '20:00' },
+        { content: 'breakfast', time: '08:00' },
+        { content: 'lunch', time: '13:00' }
+      ];
+
+      expect(TimeParser.sortChronologically(items).map(i => i.content))
+        .toEqual(['breakfast', 'lunch', 'dinner']);
+    });
+
+    it('should keep untimed items attached to the preceding timed item', () => {
+      const items = [
+        { content: 'woke up' },
+        { content: 'dinner', time: '20:00' },
+        { content: 'dessert was great' },
+        { content: 'breakfast', time: '08:00' },
+        { content: 'coffee' }
+      ];
+
+      expect(TimeParser.sortChronologically(items).map(i => i.content))
+        .toEqual(['woke up', 'breakfast', 'coffee', 'dinner', 'dessert was great']);
+    });
+
+    it('should preserve order when no item has a time', () => {
+      const items: { content: string; time?: string }[] = [{ content: 'b' }, { content: 'a' }, { content: 'c' }];
+
+      expect(TimeParser.sortChronologically(items)).toEqual(items);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { TimeZoneUtils } from '../src/utils/timeZoneUtils';
+
+describe('TimeZoneUtils', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA timezone names', () => {
+      expect(TimeZoneUtils.isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(TimeZoneUtils.isValidTimeZone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown or empty names', () => {
+      expect(TimeZoneUtils.isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(TimeZoneUtils.isValidTimeZone('')).toBe(false);
+      expect(TimeZoneUtils.isValidTimeZone('  ')).toBe(false);
+    });
+  });
+
+  describe('resolveTimeZone', () => {
+    it('should pick the first valid candidate', () => {
+      expect(TimeZoneUtils.resolveTimeZone(undefined, 'nope', 'Asia/Tokyo')).toBe('Asia/Tokyo');
+    });
+
+    it('should fall back to the device timezone', () => {
+      expect(TimeZoneUtils.resolveTimeZone(undefined, '')).toBe(TimeZoneUtils.getSystemTimeZone());
+    });
+  });
+
+  describe('getDateKey', () => {
+    it('should return the calendar day in the given timezone', () => {
+      const instant = new Date('2024-02-17T23:30:00Z');
+
+      expect(TimeZoneUtils.getDateKey(instant, 'UTC')).toBe('2024-02-17');
+      expect(TimeZoneUtils.getDateKey(instant, 'Asia/Tokyo')).toBe('2024-02-18');
+      expect(TimeZoneUtils.getDateKey(instant, 'America/Los_Angeles')).toBe('2024-02-17');
+    });
+  });
+
+  describe('getOffsetMinutes', () => {
+    it('should follow daylight saving time', () => {
+      expect(TimeZoneUtils.getOffsetMinutes(new Date('2024-01-15T12:00:00Z'), 'America/Los_Angeles')).toBe(-480);
+      expect(TimeZoneUtils.getOffsetMinutes(new Date('2024-07-15T12:00:00Z'), 'America/Los_Angeles')).toBe(-420);
+      expect(TimeZoneUtils.getOffsetMinutes(new Date('2024-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('toLocalDate', () => {
+    it('should parse the day as local midnight rather than UTC', () => {
+      const date = TimeZoneUtils.toLocalDate('2024-02-17');
+
+      expect(date.getFullYear()).toBe(2024);
+      expect(date.getMonth()).toBe(1);
+      expect(date.getDate()).toBe(17);
+      expect(date.getHours()).toBe(0);
+      expect(TimeZoneUtils.toDateKey(date)).toBe('2024-02-17');
+    });
+  });
+
+  describe('addDays', () => {
+    it('should cross month and year boundaries', () => {
+      expect(TimeZoneUtils.addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(TimeZoneUtils.addDays('2024-02-29', 1)).toBe('2024-03-01');
+      expect(TimeZoneUtils.addDays('2024-01-01', -1)).toBe('2023-12-31');
+    });
+  });
+
+  describe('getWeekday', () => {
+    it('should return the day of the week with Sunday as 0', () => {
+      expect(TimeZoneUtils.getWeekday('2024-02-18')).toBe(0);
+      expect(TimeZoneUtils.getWeekday('2024-02-19')).toBe(1);
+      expect(TimeZoneUtils.getWeekday('2024-02-24')).toBe(6);
+    });
+  });
+
+  describe('toISOString', () => {
+    it('should include the offset for the day in the timezone', () => {
+      expect(TimeZoneUtils.toISOString('2024-02-17', '00:00', 'America/Los_Angeles')).toBe('2024-02-17T00:00:00-08:00');
+      expect(TimeZoneUtils.toISOString('2024-07-04', '09:30', 'America/Los_Angeles')).toBe('2024-07-04T09:30:00-07:00');
+      expect(TimeZoneUtils.toISOString('2024-02-17', '00:00', 'Asia/Kolkata')).toBe('2024-02-17T00:00:00+05:30');
+    });
+
+    it('should use the offset after a daylight saving change on that day', () => {
+      // Clocks in Berlin move forward at 02:00 on 2024-03-31
+      expect(TimeZoneUtils.toISOString('2024-03-31', '00:00', 'Europe/Berlin')).toBe('2024-03-31T00:00:00+01:00');
+      expect(TimeZoneUtils.toISOString('2024-03-31', '12:00', 'Europe/Berlin')).toBe('2024-03-31T12:00:00+02:00');
+    });
+  });
+
+  describe('formatInstant', () => {
+    it('should format an instant as wall-clock time with offset', () => {
+      const instant = new Date('2024-02-17T23:30:15Z');
+
+      expect(TimeZoneUtils.formatInstant(instant, 'Asia/Tokyo')).toBe('2024-02-18T08:30:15+09:00');
+      expect(TimeZoneUtils.formatInstant(instant, 'UTC')).toBe('2024-02-17T23:30:15+00:00');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { TranscriptionService } from '../src/services/transcriptionService';
+import { JournalPluginSettings, DEFAULT_SETTINGS } from '../src/models/types';
+import { TFile } from 'obsidian';
+
+global.fetch = jest.fn();
+
+const recording = (path: string): TFile => {
+  const file = new TFile();
+  file.name = path.substring(path.lastIndexOf('/') + 1);
+  file.path = path;
+  file.extension = path.substring(path.lastIndexOf('.') + 1);
+  return file;
+};
+
+describe('TranscriptionService', () => {
+  const audio = recording('Attachments/Recording 20240115093000.webm');
+  const cachedTranscripts = new Map<string, string>();
+
+  const mockApp = {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string): TFile | null => cachedTranscripts.has(path) ? recording(path) : null),
+      read: jest.fn(async (file: TFile): Promise<string> => cachedTranscripts.get(file.path) || ''),
+      readBinary: jest.fn(async (): Promise<ArrayBuffer> => new ArrayBuffer(8)),
+      create: jest.fn(async (path: string, content: string): Promise<void> => {
+        cachedTranscripts.set(path, content);
+      })
+    },
+    metadataCache: {
+      getFirstLinkpathDest: jest.fn((linkpath: string): TFile | null => linkpath.startsWith('Recording') ? audio : null)
+    }
+  };
+
+  let service: TranscriptionService;
+  let settings: JournalPluginSettings;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cachedTranscripts.clear();
+    settings = {
+      ...DEFAULT_SETTINGS,
+      transcribeAudio: true,
+      providerCredentials: { openai: { apiKey: 'sk-test' } }
+    };
+    service = new TranscriptionService(mockApp as any, settings);
+  });
+
+  describe('static helpers', () => {
+    it('should recognize audio recordings', () => {
+      expect(TranscriptionService.isAudio('Recording 20240115093000.webm')).toBe(true);
+      expect(TranscriptionService.isAudio('memo.M4A')).toBe(true);
+      expect(TranscriptionService.isAudio('photo.jpg')).toBe(false);
+    });
+
+    it('should keep the transcript next to the recording', () => {
+      expect(TranscriptionService.getTranscriptPath('Attachments/memo.m4a')).toBe('Attachments/memo.transcript.txt');
+    });
+
+    it('should read the recording time from common file names', () => {
+      expect(TranscriptionService.getTimeFromName('Attachments/Recording 20240115093000.webm')).toBe('09:30');
+      expect(TranscriptionService.getTimeFromName('2024-01-15 18.05.22.m4a')).toBe('18:05');
+      expect(TranscriptionService.getTimeFromName('Walk thoughts.m4a')).toBeNull();
+    });
+  });
+
+  describe('transcribeEmbeds', () => {
+    const body = '- 08:00 Breakfast\n- ![[Recording 20240115093000.webm]]\n- 12:00 Lunch';
+
+    it('should add a timestamped entry with the transcript and cache it', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ text: ' Walked to the station.\nIt was raining. ' })
+      });
+
+      const result = await service.transcribeEmbeds(body, 'Daily Notes/2024-01-15.md', '2024-01-15', 'UTC');
+
+      expect(result).toBe('- 08:00 Breakfast\n- 09:30 Walked to the station. It was raining.\n- ![[Recording 20240115093000.webm]]\n- 12:00 Lunch');
+      expect(global.fetch).toHaveBeenCalledWith(DEFAULT_SETTINGS.transcriptionEndpoint, expect.objectContaining({
+        method: 'POST',
+        headers: { Authorization: 'Bearer sk-test' }
+      }));
+      expect(mockApp.vault.create).toHaveBeenCalledWith('Attachments/Recording 20240115093000.transcript.txt', 'Walked to the station.\nIt was raining.');
+    });
+
+    it('should use a cached transcript without calling the endpoint', async () => {
+      cachedTranscripts.set('Attachments/Recording 20240115093000.transcript.txt', 'Cached memo');
+
+      const result = await service.transcribeEmbeds(body, 'Daily Notes/2024-01-15.md', '2024-01-15', 'UTC');
+
+      expect(result).toContain('- 09:30 Cached memo');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the time written on the embedding line', async () => {
+      cachedTranscripts.set('Attachments/Recording 20240115093000.transcript.txt', 'Cached memo');
+
+      const result = await service.transcribeEmbeds('- 10:15 ![[Recording 20240115093000.webm]]', 'Daily Notes/2024-01-15.md', '2024-01-15', 'UTC');
+
+      expect(result.split('\n')[0]).toBe('- 10:15 Cached memo');
+    });
+
+    it('should fail when a memo cannot be transcribed so the note is retried', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' });
+
+      await expect(service.transcribeEmbeds(body, 'Daily Notes/2024-01-15.md', '2024-01-15', 'UTC'))
+        .rejects.toThrow('Failed to transcribe Recording 20240115093000.webm: HTTP 500: Server Error');
+      expect(mockApp.vault.create).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when transcription is turned off', async () => {
+      service.updateSettings({ ...settings, transcribeAudio: false });
+
+      const result = await service.transcribeEmbeds(body, 'Daily Notes/2024-01-15.md', '2024-01-15', 'UTC');
+
+      expect(result).toBe(body);
+      expect(mockApp.metadataCache.getFirstLinkpathDest).not.toHaveBeenCalled();
+    });
+  });
+});